@@ -0,0 +1,40 @@
+/**
+ * Behavior Tree
+ * Minimal behavior tree used by the bot AI. Nodes are functions of a shared blackboard;
+ * composites run their children in order and stop at the first child that decides.
+ */
+
+export type NodeStatus = 'success' | 'failure' | 'running';
+
+export type BehaviorNode<T> = (blackboard: T) => NodeStatus;
+
+// Runs children until one doesn't fail (pick the first behavior that applies)
+export function selector<T>(...children: BehaviorNode<T>[]): BehaviorNode<T> {
+    return (blackboard) => {
+        for (const child of children) {
+            const status = child(blackboard);
+            if (status !== 'failure') return status;
+        }
+        return 'failure';
+    };
+}
+
+// Runs children until one doesn't succeed (all steps must pass)
+export function sequence<T>(...children: BehaviorNode<T>[]): BehaviorNode<T> {
+    return (blackboard) => {
+        for (const child of children) {
+            const status = child(blackboard);
+            if (status !== 'success') return status;
+        }
+        return 'success';
+    };
+}
+
+export function condition<T>(test: (blackboard: T) => boolean): BehaviorNode<T> {
+    return (blackboard) => test(blackboard) ? 'success' : 'failure';
+}
+
+// Leaf that does something; succeeds unless it reports otherwise
+export function action<T>(run: (blackboard: T) => NodeStatus | void): BehaviorNode<T> {
+    return (blackboard) => run(blackboard) ?? 'success';
+}
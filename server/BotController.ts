@@ -0,0 +1,417 @@
+/**
+ * Bot Controller
+ * Bot AI behind a small interface: each tick a controller looks at the world and says how
+ * its ship should move, face and fire, and GameState applies it. Difficulty tiers tune a
+ * behavior-tree controller that leads its shots, switches weapons, strafes, dodges, runs
+ * for power-ups and retreats when hurt.
+ */
+
+import {
+    PlayerState,
+    ProjectileState,
+    PowerUpState,
+    ProjectileType,
+    ShootInput,
+    Vector3,
+    BotDifficulty,
+    GAME_CONSTANTS,
+} from '../shared/Protocol.js';
+import { getEffectModifiers } from '../shared/StatusEffects.js';
+import { Obstacle, SHIP_COLLISION_RADIUS, closestPointOnObstacle } from '../shared/Obstacles.js';
+import { BehaviorNode, selector, sequence, condition, action } from './BehaviorTree.js';
+
+// Everything a bot can see this tick
+export interface BotView {
+    now: number;
+    bot: PlayerState;
+    enemies: PlayerState[];     // Alive ships the bot is allowed to hurt
+    projectiles: ProjectileState[];
+    powerUps: PowerUpState[];
+    obstacles: Obstacle[];
+    isBot: (playerId: string) => boolean;
+}
+
+// What a bot wants to do this tick
+export interface BotCommand {
+    velocity: Vector3;
+    facing: Vector3 | null;     // null keeps the current rotation
+    shot: ShootInput | null;
+}
+
+export interface BotController {
+    update(view: BotView): BotCommand;
+}
+
+// How a difficulty tier flies and fights
+export interface BotTier {
+    speed: number;
+    chaseRange: number;     // Engages enemies closer than this, wanders otherwise
+    shootRange: number;
+    fireCooldown: number;   // ms between shots
+    aimError: number;       // Max aim offset in radians
+    leadAccuracy: number;   // 0 = fires at the target, 1 = at the perfect intercept
+    weapons: ProjectileType[];
+    strafe: boolean;        // Circles the target instead of flying straight at it
+    dodge: boolean;         // Side-steps incoming fire
+    seekPowerUps: boolean;
+    retreatHealth: number;  // Health fraction to break off at (0 = never)
+    targetsBots: boolean;   // Also fights other bots
+}
+
+export const BOT_TIERS: Record<BotDifficulty, BotTier> = {
+    easy: {
+        speed: 20,
+        chaseRange: 1000,
+        shootRange: 150,
+        fireCooldown: 800,
+        aimError: 0.08,
+        leadAccuracy: 0,
+        weapons: ['laser'],
+        strafe: false,
+        dodge: false,
+        seekPowerUps: false,
+        retreatHealth: 0,
+        targetsBots: false,
+    },
+    normal: {
+        speed: 23,
+        chaseRange: 1000,
+        shootRange: 200,
+        fireCooldown: 600,
+        aimError: 0.05,
+        leadAccuracy: 0.5,
+        weapons: ['laser', 'plasma'],
+        strafe: true,
+        dodge: false,
+        seekPowerUps: true,
+        retreatHealth: 0.2,
+        targetsBots: false,
+    },
+    hard: {
+        speed: 26,
+        chaseRange: 1000,
+        shootRange: 250,
+        fireCooldown: 450,
+        aimError: 0.03,
+        leadAccuracy: 0.85,
+        weapons: ['laser', 'plasma', 'missile'],
+        strafe: true,
+        dodge: true,
+        seekPowerUps: true,
+        retreatHealth: 0.3,
+        targetsBots: true,
+    },
+    ace: {
+        speed: 30,
+        chaseRange: 1000,
+        shootRange: 300,
+        fireCooldown: 300,
+        aimError: 0.01,
+        leadAccuracy: 1,
+        weapons: ['laser', 'plasma', 'missile'],
+        strafe: true,
+        dodge: true,
+        seekPowerUps: true,
+        retreatHealth: 0.35,
+        targetsBots: true,
+    },
+};
+
+const PROJECTILE_SPEEDS: Record<ProjectileType, number> = {
+    laser: GAME_CONSTANTS.LASER_SPEED,
+    missile: GAME_CONSTANTS.MISSILE_SPEED,
+    plasma: GAME_CONSTANTS.PLASMA_SPEED,
+};
+
+const MISSILE_INTERVAL = 3000;      // ms between a bot's missiles
+const PLASMA_RANGE = 100;           // Plasma up close, missiles beyond
+const POWERUP_SEEK_RANGE = 150;
+const DODGE_WARNING_TIME = 0.5;     // Seconds before impact a shot is worth dodging
+const DODGE_RADIUS = 15;            // Shots passing further away are ignored
+const OBSTACLE_AVOID_RANGE = 20;    // Steer around rocks and wrecks closer than this
+
+const UP: Vector3 = { x: 0, y: 1, z: 0 };
+
+// Blackboard shared by the behavior tree nodes for one tick
+interface Blackboard {
+    view: BotView;
+    speed: number;                  // Tier speed with power-ups applied
+    target: PlayerState | null;
+    targetDistance: number;
+    powerUp: PowerUpState | null;   // Pickup worth flying to, if any
+    command: BotCommand;
+}
+
+// Stationary target practice: holds still and never fires
+export class IdleBotController implements BotController {
+    update(): BotCommand {
+        return { velocity: { x: 0, y: 0, z: 0 }, facing: null, shot: null };
+    }
+}
+
+export class TreeBotController implements BotController {
+    private tier: BotTier;
+    private tree: BehaviorNode<Blackboard>;
+    private lastShotAt = 0;
+    private lastMissileAt = 0;
+    private wanderDirection: Vector3 = randomDirection();
+    private wanderUntil = 0;
+    private strafeSide = 1;
+    private strafeUntil = 0;
+
+    constructor(tier: BotTier) {
+        this.tier = tier;
+        this.tree = selector<Blackboard>(
+            // Hurt: break off
+            sequence(
+                condition(bb => bb.target !== null && this.isHurt(bb.view.bot)),
+                action(bb => this.retreat(bb)),
+            ),
+            // Nothing in gun range: grab a nearby power-up
+            sequence(
+                condition(bb => bb.powerUp !== null && bb.targetDistance > tier.shootRange),
+                action(bb => this.collect(bb)),
+            ),
+            sequence(
+                condition(bb => bb.target !== null && bb.targetDistance < tier.chaseRange),
+                action(bb => this.attack(bb)),
+            ),
+            action(bb => this.wander(bb)),
+        );
+    }
+
+    update(view: BotView): BotCommand {
+        const { bot, now } = view;
+        const target = this.pickTarget(view);
+        const blackboard: Blackboard = {
+            view,
+            speed: this.tier.speed * getEffectModifiers(bot.effects, now).speed,
+            target,
+            targetDistance: target ? distance(bot.position, target.position) : Infinity,
+            powerUp: this.tier.seekPowerUps ? this.findPowerUp(view) : null,
+            command: { velocity: { x: 0, y: 0, z: 0 }, facing: null, shot: null },
+        };
+
+        this.tree(blackboard);
+        if (this.tier.dodge) this.dodge(blackboard);
+        this.avoidObstacles(blackboard);
+        return blackboard.command;
+    }
+
+    private pickTarget(view: BotView): PlayerState | null {
+        let nearest: PlayerState | null = null;
+        let nearestDistance = Infinity;
+        for (const enemy of view.enemies) {
+            if (!this.tier.targetsBots && view.isBot(enemy.id)) continue;
+            const d = distance(view.bot.position, enemy.position);
+            if (d < nearestDistance) {
+                nearest = enemy;
+                nearestDistance = d;
+            }
+        }
+        return nearest;
+    }
+
+    private isHurt(bot: PlayerState): boolean {
+        return bot.health / bot.maxHealth < this.tier.retreatHealth;
+    }
+
+    // Nearest active pickup in reach; repairs are only worth it when damaged
+    private findPowerUp(view: BotView): PowerUpState | null {
+        const { bot } = view;
+        let best: PowerUpState | null = null;
+        let bestDistance = POWERUP_SEEK_RANGE;
+        for (const powerUp of view.powerUps) {
+            if (!powerUp.isActive) continue;
+            if ((powerUp.type === 'health' || powerUp.type === 'shield') && bot.health >= bot.maxHealth) continue;
+            const d = distance(bot.position, powerUp.position);
+            if (d < bestDistance) {
+                best = powerUp;
+                bestDistance = d;
+            }
+        }
+        return best;
+    }
+
+    // Fly away from the threat - toward a repair if one is close
+    private retreat(bb: Blackboard) {
+        const { bot } = bb.view;
+        const direction = bb.powerUp?.type === 'health'
+            ? normalize(sub(bb.powerUp.position, bot.position))
+            : normalize(sub(bot.position, bb.target!.position));
+        bb.command.velocity = scale(direction, bb.speed);
+        bb.command.facing = direction;
+    }
+
+    private collect(bb: Blackboard) {
+        const direction = normalize(sub(bb.powerUp!.position, bb.view.bot.position));
+        bb.command.velocity = scale(direction, bb.speed);
+        bb.command.facing = direction;
+    }
+
+    private attack(bb: Blackboard) {
+        const { bot, now } = bb.view;
+        const target = bb.target!;
+        const toTarget = normalize(sub(target.position, bot.position));
+
+        if (this.tier.strafe) {
+            // Close to a comfortable range, back off if too close, and circle the target
+            const preferred = this.tier.shootRange * 0.6;
+            const approach = bb.targetDistance > preferred ? 1 : bb.targetDistance < preferred * 0.5 ? -0.5 : 0;
+            if (now >= this.strafeUntil) {
+                this.strafeSide = Math.random() < 0.5 ? -1 : 1;
+                this.strafeUntil = now + 1500 + Math.random() * 1500;
+            }
+            const side = normalize(cross(toTarget, UP));
+            bb.command.velocity = add(scale(toTarget, approach * bb.speed), scale(side, this.strafeSide * bb.speed * 0.7));
+        } else {
+            bb.command.velocity = scale(toTarget, bb.speed);
+        }
+        bb.command.facing = toTarget;
+
+        if (bb.targetDistance < this.tier.shootRange) {
+            this.shoot(bb, target);
+        }
+    }
+
+    private shoot(bb: Blackboard, target: PlayerState) {
+        const { bot, now } = bb.view;
+        const cooldown = this.tier.fireCooldown * getEffectModifiers(bot.effects, now).cooldown;
+        if (now - this.lastShotAt < cooldown) return;
+        this.lastShotAt = now;
+
+        const type = this.chooseWeapon(bb.targetDistance, now);
+        if (type === 'missile') {
+            // Homing does the leading. The lock is only honored (and the target warned from the
+            // room tick) once the server has seen the target held in this bot's cone.
+            this.lastMissileAt = now;
+            bb.command.shot = { type, direction: normalize(sub(target.position, bot.position)), lockTargetId: target.id };
+            return;
+        }
+
+        const aimPoint = this.leadTarget(bot.position, target, PROJECTILE_SPEEDS[type]);
+        bb.command.shot = { type, direction: applyAimError(normalize(sub(aimPoint, bot.position)), this.tier.aimError) };
+    }
+
+    // Missiles at range when reloaded, plasma up close, lasers otherwise
+    private chooseWeapon(targetDistance: number, now: number): ProjectileType {
+        const { weapons } = this.tier;
+        if (weapons.includes('missile') && targetDistance > PLASMA_RANGE && now - this.lastMissileAt >= MISSILE_INTERVAL) {
+            return 'missile';
+        }
+        if (weapons.includes('plasma') && targetDistance < PLASMA_RANGE) return 'plasma';
+        return weapons.includes('laser') ? 'laser' : weapons[0];
+    }
+
+    // Where the target will be when the shot gets there, scaled by how well this tier leads
+    private leadTarget(from: Vector3, target: PlayerState, projectileSpeed: number): Vector3 {
+        const flightTime = distance(from, target.position) / projectileSpeed;
+        return add(target.position, scale(target.velocity, flightTime * this.tier.leadAccuracy));
+    }
+
+    private wander(bb: Blackboard) {
+        const { now } = bb.view;
+        if (now >= this.wanderUntil) {
+            this.wanderDirection = randomDirection();
+            this.wanderUntil = now + 2000 + Math.random() * 3000;
+        }
+        bb.command.velocity = scale(this.wanderDirection, bb.speed);
+        bb.command.facing = this.wanderDirection;
+    }
+
+    // Side-step the first enemy shot that is about to pass close by
+    private dodge(bb: Blackboard) {
+        const { bot, enemies } = bb.view;
+        for (const projectile of bb.view.projectiles) {
+            if (!enemies.some(enemy => enemy.id === projectile.ownerId)) continue;
+
+            const speed = length(projectile.velocity);
+            if (speed === 0) continue;
+            const heading = scale(projectile.velocity, 1 / speed);
+            const offset = sub(bot.position, projectile.position);
+            const ahead = dot(offset, heading);
+            if (ahead <= 0 || ahead / speed > DODGE_WARNING_TIME) continue;
+
+            const miss = sub(offset, scale(heading, ahead));
+            const missDistance = length(miss);
+            if (missDistance > DODGE_RADIUS) continue;
+
+            // Push out the way we're already off the line of fire
+            const side = missDistance > 0.01 ? scale(miss, 1 / missDistance) : normalize(cross(heading, UP));
+            bb.command.velocity = add(scale(bb.command.velocity, 0.3), scale(side, bb.speed));
+            return;
+        }
+    }
+
+    // Slide around obstacles instead of ramming them: drop the part of the velocity
+    // heading into one that is close, and ease away from it
+    private avoidObstacles(bb: Blackboard) {
+        const { bot, obstacles } = bb.view;
+        for (const obstacle of obstacles) {
+            const offset = sub(bot.position, closestPointOnObstacle(obstacle, bot.position));
+            const gap = length(offset) - obstacle.radius - SHIP_COLLISION_RADIUS;
+            if (gap > OBSTACLE_AVOID_RANGE) continue;
+
+            const away = normalize(offset);
+            const into = dot(bb.command.velocity, away);
+            if (into >= 0) continue;
+
+            const push = bb.speed * 0.5 * (1 - Math.max(0, gap) / OBSTACLE_AVOID_RANGE);
+            bb.command.velocity = add(bb.command.velocity, scale(away, push - into));
+        }
+    }
+}
+
+function randomDirection(): Vector3 {
+    const angle = Math.random() * Math.PI * 2;
+    const pitch = (Math.random() - 0.5) * Math.PI * 0.3;
+    return {
+        x: Math.cos(angle) * Math.cos(pitch),
+        y: Math.sin(pitch),
+        z: Math.sin(angle) * Math.cos(pitch),
+    };
+}
+
+// Offset a unit direction by up to `aimError` radians
+function applyAimError(direction: Vector3, aimError: number): Vector3 {
+    if (aimError <= 0) return direction;
+    const offset = randomDirection();
+    return normalize(add(direction, scale(offset, Math.tan(aimError) * Math.random())));
+}
+
+function add(a: Vector3, b: Vector3): Vector3 {
+    return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function sub(a: Vector3, b: Vector3): Vector3 {
+    return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function scale(v: Vector3, s: number): Vector3 {
+    return { x: v.x * s, y: v.y * s, z: v.z * s };
+}
+
+function dot(a: Vector3, b: Vector3): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vector3, b: Vector3): Vector3 {
+    return {
+        x: a.y * b.z - a.z * b.y,
+        y: a.z * b.x - a.x * b.z,
+        z: a.x * b.y - a.y * b.x,
+    };
+}
+
+function length(v: Vector3): number {
+    return Math.sqrt(dot(v, v));
+}
+
+function normalize(v: Vector3): Vector3 {
+    const len = length(v);
+    return len > 0 ? scale(v, 1 / len) : { x: 0, y: 0, z: 0 };
+}
+
+function distance(a: Vector3, b: Vector3): number {
+    return length(sub(a, b));
+}
@@ -0,0 +1,124 @@
+/**
+ * Capture the Flag
+ * One flag per team at its base. Enemies pick it up by flying through it, carriers drop it
+ * where they die, teammates return a dropped flag by touching it, and carrying the enemy
+ * flag to your own base (with your flag at home) is a capture.
+ */
+
+import { FlagEventData, FlagState, PlayerState, Vector3, GAME_CONSTANTS } from '../shared/Protocol.js';
+
+type Team = 'red' | 'blue';
+
+const TEAMS: Team[] = ['red', 'blue'];
+
+export class CaptureTheFlag {
+    private bases: Record<Team, Vector3>;
+    private flags: Record<Team, FlagState>;
+
+    constructor(bases: Record<Team, Vector3>) {
+        this.bases = bases;
+        this.flags = {
+            red: this.homeFlag('red'),
+            blue: this.homeFlag('blue'),
+        };
+    }
+
+    private homeFlag(team: Team): FlagState {
+        return {
+            team,
+            status: 'home',
+            position: { ...this.bases[team] },
+            carrierId: null,
+            returnAt: 0,
+        };
+    }
+
+    // Both flags back to base (new round)
+    reset() {
+        TEAMS.forEach(team => this.flags[team] = this.homeFlag(team));
+    }
+
+    getFlags(): FlagState[] {
+        return TEAMS.map(team => this.flags[team]);
+    }
+
+    /**
+     * Run the flag rules for one tick. Returns what happened; captures are scored by the caller.
+     * `canTouch` is false while interactions are frozen (match results screen).
+     */
+    update(players: Map<string, PlayerState>, now: number, canTouch: boolean): FlagEventData[] {
+        const events: FlagEventData[] = [];
+
+        for (const team of TEAMS) {
+            const flag = this.flags[team];
+
+            if (flag.status === 'carried') {
+                const carrier = flag.carrierId ? players.get(flag.carrierId) : undefined;
+                if (!carrier || !carrier.isAlive) {
+                    // Carrier died or left - the flag falls where it was last seen
+                    flag.status = 'dropped';
+                    flag.returnAt = now + GAME_CONSTANTS.FLAG_RETURN_TIME;
+                    flag.carrierId = null;
+                    events.push(this.event('drop', team, carrier ?? null, flag.position));
+                } else {
+                    flag.position = { ...carrier.position };
+                }
+            }
+
+            if (flag.status === 'dropped' && now >= flag.returnAt) {
+                this.flags[team] = this.homeFlag(team);
+                events.push(this.event('return', team, null, this.bases[team]));
+            }
+        }
+
+        if (!canTouch) return events;
+
+        players.forEach(player => {
+            if (!player.isAlive || !player.team) return;
+            const enemy: Team = player.team === 'red' ? 'blue' : 'red';
+
+            // Flying through a loose flag: take the enemy's, return our own
+            const own = this.flags[player.team];
+            if (own.status === 'dropped' && distance(player.position, own.position) < GAME_CONSTANTS.FLAG_PICKUP_RADIUS) {
+                this.flags[player.team] = this.homeFlag(player.team);
+                events.push(this.event('return', player.team, player, this.bases[player.team]));
+            }
+
+            const enemyFlag = this.flags[enemy];
+            if (enemyFlag.status !== 'carried' && distance(player.position, enemyFlag.position) < GAME_CONSTANTS.FLAG_PICKUP_RADIUS) {
+                enemyFlag.status = 'carried';
+                enemyFlag.carrierId = player.id;
+                enemyFlag.returnAt = 0;
+                enemyFlag.position = { ...player.position };
+                events.push(this.event('pickup', enemy, player, player.position));
+            }
+
+            // Carrier made it home - only counts while our own flag is safe at base
+            if (enemyFlag.carrierId === player.id
+                && this.flags[player.team].status === 'home'
+                && distance(player.position, this.bases[player.team]) < GAME_CONSTANTS.FLAG_CAPTURE_RADIUS) {
+                this.flags[enemy] = this.homeFlag(enemy);
+                events.push(this.event('capture', enemy, player, player.position));
+            }
+        });
+
+        return events;
+    }
+
+    private event(type: FlagEventData['type'], team: Team, player: PlayerState | null, position: Vector3): FlagEventData {
+        return {
+            type,
+            team,
+            playerId: player?.id ?? null,
+            playerName: player?.name ?? null,
+            position: { ...position },
+        };
+    }
+}
+
+function distance(a: Vector3, b: Vector3): number {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const dz = a.z - b.z;
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
@@ -0,0 +1,124 @@
+/**
+ * Control Zone
+ * King-of-the-hill zone: a sphere that hops between the map's zone points. A side (team or solo
+ * player) takes it over by staying inside alone, then scores every second it holds it
+ * uncontested.
+ */
+
+import { ControlZoneState, PlayerState, Vector3, getSideId, GAME_CONSTANTS } from '../shared/Protocol.js';
+
+export class ControlZone {
+    private state: ControlZoneState;
+    private points: Vector3[]; // Where the zone can be (from the map), visited in order
+    private pointIndex = 0;
+    private holdTime = 0; // Seconds held towards the next point
+
+    constructor(points: Vector3[], now: number) {
+        this.points = points;
+        this.state = this.createState(now);
+    }
+
+    private createState(now: number): ControlZoneState {
+        return {
+            position: { ...this.points[0] },
+            radius: GAME_CONSTANTS.KOTH_ZONE_RADIUS,
+            ownerId: null,
+            capturingId: null,
+            progress: 0,
+            contested: false,
+            movesAt: now + GAME_CONSTANTS.KOTH_ZONE_MOVE_INTERVAL,
+            scores: {},
+        };
+    }
+
+    // Back to the first point with no points scored (new round)
+    reset(now: number) {
+        this.pointIndex = 0;
+        this.holdTime = 0;
+        this.state = this.createState(now);
+    }
+
+    getState(): ControlZoneState {
+        return this.state;
+    }
+
+    getScore(sideId: string): number {
+        return this.state.scores[sideId] ?? 0;
+    }
+
+    /**
+     * Advance ownership and scoring. Returns the sides awarded points this tick.
+     * Points are only handed out while `scoring` (the match is live).
+     */
+    update(players: Map<string, PlayerState>, deltaTime: number, now: number, scoring: boolean): string[] {
+        const zone = this.state;
+        const awarded: string[] = [];
+
+        if (now >= zone.movesAt) {
+            this.moveToNextPoint(now);
+        }
+
+        // Sides with a live ship inside
+        const sides = new Set<string>();
+        players.forEach(player => {
+            if (!player.isAlive) return;
+            const dx = player.position.x - zone.position.x;
+            const dy = player.position.y - zone.position.y;
+            const dz = player.position.z - zone.position.z;
+            if (dx * dx + dy * dy + dz * dz < zone.radius * zone.radius) {
+                sides.add(getSideId(player));
+            }
+        });
+
+        zone.contested = sides.size > 1;
+        const captureStep = deltaTime * 1000 / GAME_CONSTANTS.KOTH_CAPTURE_TIME;
+
+        if (sides.size === 1) {
+            const [side] = sides;
+            if (side === zone.ownerId) {
+                // Holding uncontested
+                if (scoring) {
+                    this.holdTime += deltaTime;
+                    while (this.holdTime >= 1) {
+                        this.holdTime -= 1;
+                        zone.scores[side] = this.getScore(side) + GAME_CONSTANTS.KOTH_POINTS_PER_SECOND;
+                        awarded.push(side);
+                    }
+                }
+            } else {
+                // Taking over - progress restarts if a different side was capturing
+                if (zone.capturingId !== side) {
+                    zone.capturingId = side;
+                    zone.progress = 0;
+                }
+                zone.progress = Math.min(1, zone.progress + captureStep);
+                if (zone.progress >= 1) {
+                    zone.ownerId = side;
+                    zone.capturingId = null;
+                    zone.progress = 0;
+                    this.holdTime = 0;
+                }
+            }
+        } else if (sides.size === 0 && zone.capturingId) {
+            // Abandoned captures drain away
+            zone.progress = Math.max(0, zone.progress - captureStep);
+            if (zone.progress === 0) zone.capturingId = null;
+        }
+
+        return awarded;
+    }
+
+    // Scores carry over; ownership does not
+    private moveToNextPoint(now: number) {
+        this.pointIndex = (this.pointIndex + 1) % this.points.length;
+        this.holdTime = 0;
+        Object.assign(this.state, {
+            position: { ...this.points[this.pointIndex] },
+            ownerId: null,
+            capturingId: null,
+            progress: 0,
+            contested: false,
+            movesAt: now + GAME_CONSTANTS.KOTH_ZONE_MOVE_INTERVAL,
+        });
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * Elimination Rounds
+ * Last-ship-standing rounds: nobody respawns while a round is being fought, and the round
+ * goes to the last side (team or solo player) with a ship left. Round wins decide the match.
+ */
+
+import { EliminationState, PlayerState, getSideId, GAME_CONSTANTS } from '../shared/Protocol.js';
+
+// What happened during an update
+export type RoundTransition = 'roundWon' | 'roundDrawn' | 'roundStarted' | null;
+
+export class EliminationRounds {
+    private state: EliminationState;
+
+    constructor(now: number) {
+        this.state = this.createState(now);
+    }
+
+    private createState(now: number): EliminationState {
+        return {
+            round: 1,
+            phase: 'fighting',
+            waiting: true,
+            roundEndsAt: now + GAME_CONSTANTS.ELIMINATION_ROUND_TIME,
+            nextRoundAt: 0,
+            wins: {},
+            roundWinnerId: null,
+        };
+    }
+
+    // New series: round 1 starts now with no wins
+    reset(now: number) {
+        this.state = this.createState(now);
+    }
+
+    getState(): EliminationState {
+        return this.state;
+    }
+
+    getWins(sideId: string): number {
+        return this.state.wins[sideId] ?? 0;
+    }
+
+    // Dead players stay down until the round is decided (free respawns while waiting for opponents)
+    isFighting(): boolean {
+        return this.state.phase === 'fighting' && !this.state.waiting;
+    }
+
+    update(now: number, players: PlayerState[]): RoundTransition {
+        const state = this.state;
+
+        if (state.phase === 'intermission') {
+            if (now >= state.nextRoundAt) {
+                state.round++;
+                state.phase = 'fighting';
+                state.roundEndsAt = now + GAME_CONSTANTS.ELIMINATION_ROUND_TIME;
+                state.nextRoundAt = 0;
+                state.roundWinnerId = null;
+                return 'roundStarted';
+            }
+            return null;
+        }
+
+        // Ships left per side
+        const alive = new Map<string, number>();
+        players.forEach(player => {
+            const side = getSideId(player);
+            alive.set(side, (alive.get(side) ?? 0) + (player.isAlive ? 1 : 0));
+        });
+
+        // Nobody to fight yet - hold the round open
+        state.waiting = alive.size < 2;
+        if (state.waiting) {
+            state.roundEndsAt = now + GAME_CONSTANTS.ELIMINATION_ROUND_TIME;
+            return null;
+        }
+
+        const standing = [...alive].filter(([, count]) => count > 0);
+        if (standing.length <= 1) {
+            return this.endRound(standing[0]?.[0] ?? null, now);
+        }
+
+        // Out of time: most ships left takes it, a tie is a draw
+        if (now >= state.roundEndsAt) {
+            const most = Math.max(...standing.map(([, count]) => count));
+            const leaders = standing.filter(([, count]) => count === most);
+            return this.endRound(leaders.length === 1 ? leaders[0][0] : null, now);
+        }
+
+        return null;
+    }
+
+    private endRound(winnerId: string | null, now: number): RoundTransition {
+        const state = this.state;
+        if (winnerId) {
+            state.wins[winnerId] = this.getWins(winnerId) + 1;
+        }
+        state.roundWinnerId = winnerId;
+        state.phase = 'intermission';
+        state.nextRoundAt = now + GAME_CONSTANTS.ELIMINATION_INTERMISSION;
+        return winnerId ? 'roundWon' : 'roundDrawn';
+    }
+}
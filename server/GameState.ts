@@ -15,35 +15,47 @@ import {
     Quaternion,
     PowerUpType,
     ProjectileType,
+    DamageSource,
+    MatchEndData,
+    MatchSettings,
+    MatchStanding,
+    BotDifficulty,
+    PracticeSettings,
+    FlagEventData,
+    MissileLockData,
+    isTeamMode,
+    getSideId,
+    isBotDifficulty,
+    isProjectileType,
+    DEFAULT_PRACTICE_SETTINGS,
     GAME_CONSTANTS,
 } from '../shared/Protocol.js';
-
-// Random spawn positions
-const SPAWN_POSITIONS: Vector3[] = [
-    { x: 0, y: 0, z: 0 },
-    { x: 100, y: 20, z: 100 },
-    { x: -100, y: -20, z: 100 },
-    { x: 100, y: 10, z: -100 },
-    { x: -100, y: -10, z: -100 },
-    { x: 0, y: 40, z: 150 },
-    { x: 0, y: -40, z: -150 },
-    { x: 150, y: 0, z: 0 },
-    { x: -150, y: 0, z: 0 },
-];
-
-// Team spawn positions
-const TEAM_SPAWNS = {
-    red: [
-        { x: -150, y: 0, z: 0 },
-        { x: -120, y: 20, z: 50 },
-        { x: -120, y: -20, z: -50 },
-    ],
-    blue: [
-        { x: 150, y: 0, z: 0 },
-        { x: 120, y: 20, z: 50 },
-        { x: 120, y: -20, z: -50 },
-    ],
-};
+import { FlightWorld, stepFlight, sanitizeInput, lookRotation, getForwardVector } from '../shared/FlightModel.js';
+import { sweepSphereVsShip, PROJECTILE_RADII } from '../shared/Collision.js';
+import { generateObstacles, resolveObstacleCollisions, sweepSphereVsObstacles } from '../shared/Obstacles.js';
+import { clampToCombatZone, getHardEdge, isOutsideCombatZone } from '../shared/ArenaBounds.js';
+import { PlayerHistory } from './PlayerHistory.js';
+import { MatchController, MatchContender } from './MatchController.js';
+import { CaptureTheFlag } from './CaptureTheFlag.js';
+import { ControlZone } from './ControlZone.js';
+import { SurvivalWaves, getWaveConfig } from './SurvivalWaves.js';
+import { EliminationRounds } from './EliminationRounds.js';
+import { BotController, TreeBotController, IdleBotController, BOT_TIERS } from './BotController.js';
+import { RECENT_DEATH_TIME, SpawnContext, chooseSpawnPoint } from './SpawnSelector.js';
+import { ArenaMap, getArenaMap } from '../shared/ArenaMaps.js';
+import { applyEffect, getEffectModifiers, getWeaponCooldown } from '../shared/StatusEffects.js';
+
+// Lag compensation cap, overridable for testing high-latency setups
+const LAG_COMP_MAX_REWIND = Number(process.env.LAG_COMP_MAX_REWIND) || GAME_CONSTANTS.LAG_COMP_MAX_REWIND;
+
+// Extra rewind allowed beyond the measured latency, to absorb jitter (ms)
+const LAG_COMP_TOLERANCE = 50;
+
+// Flight time a client may bank ahead of the server clock, to absorb network jitter (seconds)
+const INPUT_TIME_BURST = 0.25;
+
+// One history sample per tick
+const HISTORY_SAMPLES = Math.ceil(GAME_CONSTANTS.LAG_COMP_HISTORY / 1000 * GAME_CONSTANTS.TICK_RATE);
 
 // Bot names
 const BOT_NAMES = [
@@ -55,11 +67,9 @@ const BOT_NAMES = [
 // Bot state
 interface BotState {
     id: string;
-    targetId: string | null;
-    lastShootTime: number;
-    moveDirection: Vector3;
-    changeDirectionTime: number;
-    respawnTime: number;
+    controller: BotController;
+    respawns: boolean; // Survival bots are gone for good once destroyed
+    backfill: boolean; // Filling an under-populated public match
 }
 
 export class GameState {
@@ -68,68 +78,160 @@ export class GameState {
     powerUps: PowerUpState[] = [];
     gameMode: GameMode = 'ffa';
     teamScores = { red: 0, blue: 0 };
-    isPracticeMode: boolean = false;
+    readonly match: MatchController;
+    readonly map: ArenaMap;
+
+    // Play area and solid obstacles, generated from the map like the client does
+    private world: FlightWorld;
+
+    // Sandbox options, only in a practice session
+    private practice: PracticeSettings | null = null;
+
+    // Flag rules, only in capture the flag
+    private ctf: CaptureTheFlag | null = null;
+
+    // Moving control zone, only in king of the hill
+    private zone: ControlZone | null = null;
+
+    // Wave director, only in survival
+    private survival: SurvivalWaves | null = null;
+
+    // Round series, only in elimination
+    private elimination: EliminationRounds | null = null;
 
     private projectileIdCounter = 0;
     private powerUpIdCounter = 0;
     private botIdCounter = 0;
     private lastPowerUpSpawn = 0;
 
+    // Earliest time each player's weapons may fire again
+    private weaponReadyAt: Map<string, Partial<Record<ProjectileType, number>>> = new Map();
+
+    // Lag compensation: past poses per player, measured round-trip times, and how far
+    // back each in-flight laser tests its targets
+    private histories: Map<string, PlayerHistory> = new Map();
+    private latencies: Map<string, number> = new Map();
+    private projectileRewind: Map<string, number> = new Map();
+
+    // Missile countermeasures
+    private boostingPlayers: Set<string> = new Set();
+    private flareReadyAt: Map<string, number> = new Map();
+
+    // Earliest time each dead player may respawn
+    private respawnReadyAt: Map<string, number> = new Map();
+
+    // Where each player last died, kept away from when they respawn
+    private lastDeaths: Map<string, { position: Vector3; time: number }> = new Map();
+
+    // When each enemy came into each shooter's lock cone, by shooter then target
+    private lockSightings: Map<string, Map<string, number>> = new Map();
+
+    // Locked missiles launched since the last tick, by humans and bots alike
+    private launchedLocks: MissileLockResult[] = [];
+
+    // Flight time each player's inputs may still simulate, refilled by the server clock
+    private inputBudgets: Map<string, { available: number; refilledAt: number }> = new Map();
+
+    // Hardest obstacle impact per ship since the last tick, damaged in update()
+    private crashes: Map<string, number> = new Map();
+
     // Bot tracking
     private bots: Map<string, BotState> = new Map();
-    private botCount = 0;
-    private botsArePassive = false;
 
-    constructor(mode: GameMode = 'ffa') {
+    // Bot backfill: bots top public matches up to this many ships (0 = off)
+    private minPlayers = 0;
+    private backfillDifficulty: BotDifficulty = 'normal';
+
+    constructor(mode: GameMode = 'ffa', matchSettings: Partial<MatchSettings> = {}, map: ArenaMap = getArenaMap()) {
+        this.map = map;
+        this.world = { size: map.bounds.size, obstacles: generateObstacles(map) };
         this.gameMode = mode;
+        this.match = new MatchController(mode, matchSettings);
+        this.ctf = mode === 'ctf' ? this.createFlags() : null;
+        this.zone = mode === 'koth' ? new ControlZone(this.map.zonePoints, Date.now()) : null;
+        this.survival = mode === 'survival' ? new SurvivalWaves(Date.now()) : null;
+        this.elimination = mode === 'elimination' ? new EliminationRounds(Date.now()) : null;
         this.initPowerUps();
     }
 
-    private initPowerUps() {
-        const positions: Vector3[] = [
-            { x: 0, y: 0, z: 0 },
-            { x: 80, y: 10, z: 80 },
-            { x: -80, y: -10, z: 80 },
-            { x: 80, y: 0, z: -80 },
-            { x: -80, y: 0, z: -80 },
-            { x: 0, y: 30, z: 0 },
-        ];
-
-        const types: PowerUpType[] = ['health', 'shield', 'speed', 'rapidfire', 'damage'];
+    // Each team's flag sits at its main spawn point
+    private createFlags(): CaptureTheFlag {
+        return new CaptureTheFlag({ red: this.map.spawns.red[0], blue: this.map.spawns.blue[0] });
+    }
 
-        positions.forEach((pos, i) => {
+    private initPowerUps() {
+        this.map.powerUps.forEach(({ type, position }) => {
             this.powerUps.push({
                 id: `powerup_${this.powerUpIdCounter++}`,
-                type: types[i % types.length],
-                position: pos,
+                type,
+                position: { ...position },
                 respawnTime: 0,
                 isActive: true,
             });
         });
     }
 
-    // Enable practice mode with bots
-    enablePracticeMode(numBots: number = 3, isPassive: boolean = false) {
-        this.isPracticeMode = true;
-        this.botCount = numBots;
-        this.botsArePassive = isPassive;
+    get isPracticeMode(): boolean {
+        return this.practice !== null;
+    }
+
+    // Turn this room into a practice sandbox with bots
+    enablePracticeMode(changes: Partial<PracticeSettings> = {}): PracticeSettings {
+        this.match.disable();
+        this.practice = mergePracticeSettings(DEFAULT_PRACTICE_SETTINGS, changes);
+        this.spawnPracticeBots();
+        return this.practice;
+    }
+
+    getPracticeSettings(): PracticeSettings | null {
+        return this.practice;
+    }
 
-        // Spawn initial bots
-        for (let i = 0; i < numBots; i++) {
-            this.spawnBot();
+    // Apply changes from the practice menu. Any change to the bot options replaces the bots.
+    updatePracticeSettings(changes: Partial<PracticeSettings>): PracticeSettings | null {
+        const current = this.practice;
+        if (!current) return null;
+
+        const next = mergePracticeSettings(current, changes);
+        this.practice = next;
+
+        if (next.botCount !== current.botCount
+            || next.botBehavior !== current.botBehavior
+            || next.botDifficulty !== current.botDifficulty) {
+            [...this.bots.keys()].forEach(botId => this.removeBot(botId));
+            this.spawnPracticeBots();
+        }
+        return next;
+    }
+
+    private spawnPracticeBots() {
+        const { botCount, botBehavior, botDifficulty } = this.practice!;
+        for (let i = 0; i < botCount; i++) {
+            this.spawnBot(botBehavior === 'passive' ? new IdleBotController() : new TreeBotController(BOT_TIERS[botDifficulty]));
         }
     }
 
-    private spawnBot(): PlayerState {
+    // Practice perks only ever apply to the human, never to the bots
+    private hasPracticePerk(playerId: string, perk: 'infiniteAmmo' | 'invulnerable' | 'instantRespawn'): boolean {
+        return !!this.practice?.[perk] && !this.bots.has(playerId);
+    }
+
+    // Keep at least `minPlayers` ships in the room by adding bots while humans are scarce
+    setBotBackfill(minPlayers: number, difficulty: BotDifficulty = 'normal') {
+        this.minPlayers = Math.max(0, Math.min(minPlayers, GAME_CONSTANTS.MAX_PLAYERS));
+        this.backfillDifficulty = difficulty;
+    }
+
+    private spawnBot(controller: BotController, team: 'red' | 'blue' | null = null, respawns: boolean = true, backfill: boolean = false): PlayerState {
         const botId = `bot_${this.botIdCounter++}`;
         const botName = BOT_NAMES[Math.floor(Math.random() * BOT_NAMES.length)] + '_' + Math.floor(Math.random() * 100);
-        const spawnPos = this.getSpawnPosition(null);
+        const spawnPos = this.getSpawnPosition(botId, team);
 
         const bot: PlayerState = {
             id: botId,
-            name: `🤖 ${botName}`,
+            name: botName,
             position: { ...spawnPos },
-            rotation: { x: 0, y: Math.random() * Math.PI * 2, z: 0, w: 1 },
+            rotation: lookRotation(this.randomDirection()),
             velocity: { x: 0, y: 0, z: 0 },
             health: GAME_CONSTANTS.PLAYER_MAX_HEALTH,
             maxHealth: GAME_CONSTANTS.PLAYER_MAX_HEALTH,
@@ -137,9 +239,15 @@ export class GameState {
             score: 0,
             kills: 0,
             deaths: 0,
-            team: null,
+            team,
+            isBot: true,
             isAlive: true,
             lastUpdateTime: Date.now(),
+            lastProcessedInput: 0,
+            effects: [],
+            spawnProtectedUntil: Date.now() + GAME_CONSTANTS.SPAWN_PROTECTION_TIME,
+            boundaryDamageAt: 0,
+            outOfBoundsSince: 0,
         };
 
         this.players.set(botId, bot);
@@ -147,16 +255,98 @@ export class GameState {
         // Create bot state
         this.bots.set(botId, {
             id: botId,
-            targetId: null,
-            lastShootTime: 0,
-            moveDirection: this.randomDirection(),
-            changeDirectionTime: Date.now() + 2000 + Math.random() * 3000,
-            respawnTime: 0,
+            controller,
+            respawns,
+            backfill,
         });
 
         return bot;
     }
 
+    /**
+     * Add or retire one backfill bot per tick until the room holds `minPlayers` ships.
+     * Empty rooms get no bots, and in team modes bots join the smaller team and leave
+     * the bigger one.
+     */
+    private updateBackfill() {
+        if (this.minPlayers === 0 || this.isPracticeMode || this.survival) return;
+
+        const backfill = [...this.bots.values()]
+            .filter(botState => botState.backfill)
+            .map(botState => this.players.get(botState.id)!);
+        const humans = this.getHumanCount();
+        const wanted = humans > 0 ? Math.max(0, this.minPlayers - humans) : 0;
+        const teams = this.getTeamCounts();
+        const bigger: 'red' | 'blue' = teams.red > teams.blue ? 'red' : 'blue';
+
+        if (backfill.length < wanted) {
+            const team = isTeamMode(this.gameMode) ? (bigger === 'red' ? 'blue' : 'red') : null;
+            // Backfill bots stand in for players, so they fight other bots too
+            const tier = { ...BOT_TIERS[this.backfillDifficulty], targetsBots: true };
+            const bot = this.spawnBot(new TreeBotController(tier), team, true, true);
+            // Mid-round in elimination it waits like everyone else
+            bot.isAlive = !this.isRespawnLocked();
+        } else if (backfill.length > wanted) {
+            // Prefer retiring from the bigger team, and a bot that is already down
+            const candidates = isTeamMode(this.gameMode) ? backfill.filter(bot => bot.team === bigger) : backfill;
+            const pool = candidates.length > 0 ? candidates : backfill;
+            const bot = pool.find(b => !b.isAlive) ?? pool[pool.length - 1];
+            this.removeBot(bot.id);
+        } else if (isTeamMode(this.gameMode) && Math.abs(teams.red - teams.blue) >= 2) {
+            // Lopsided teams: pull a bot off the bigger team, it comes back on the smaller one
+            const bot = backfill.find(b => b.team === bigger);
+            if (bot) this.removeBot(bot.id);
+        }
+    }
+
+    private getTeamCounts(): { red: number; blue: number } {
+        const counts = { red: 0, blue: 0 };
+        this.players.forEach(player => {
+            if (player.team) counts[player.team]++;
+        });
+        return counts;
+    }
+
+    private removeBot(botId: string) {
+        this.removePlayer(botId);
+        this.bots.delete(botId);
+    }
+
+    // Send the next survival wave at the humans, spread around the red base
+    private spawnWave(wave: number) {
+        const config = getWaveConfig(wave);
+
+        for (let i = 0; i < config.botCount; i++) {
+            // Waves press the attack: no retreating, no power-up runs
+            const controller = new TreeBotController({
+                ...BOT_TIERS.normal,
+                chaseRange: GAME_CONSTANTS.WORLD_SIZE * 2,
+                fireCooldown: config.fireCooldown,
+                aimError: config.aimError,
+                weapons: config.weapons,
+                seekPowerUps: false,
+                retreatHealth: 0,
+            });
+            const bot = this.spawnBot(controller, 'red', false);
+            bot.position.x += (Math.random() - 0.5) * 60;
+            bot.position.y += (Math.random() - 0.5) * 60;
+            bot.position.z += (Math.random() - 0.5) * 60;
+        }
+    }
+
+    // Destroyed survival bots sometimes leave a power-up behind
+    private dropPowerUp(position: Vector3) {
+        const types: PowerUpType[] = ['health', 'shield', 'speed', 'rapidfire', 'damage'];
+        this.powerUps.push({
+            id: `powerup_${this.powerUpIdCounter++}`,
+            type: types[Math.floor(Math.random() * types.length)],
+            position: { ...position },
+            respawnTime: 0,
+            isActive: true,
+            expiresAt: Date.now() + GAME_CONSTANTS.SURVIVAL_DROP_LIFETIME,
+        });
+    }
+
     private randomDirection(): Vector3 {
         const angle = Math.random() * Math.PI * 2;
         const pitch = (Math.random() - 0.5) * Math.PI * 0.3;
@@ -168,7 +358,8 @@ export class GameState {
     }
 
     addPlayer(id: string, name: string, team?: 'red' | 'blue'): PlayerState {
-        const spawnPos = this.getSpawnPosition(team || null);
+        const assignedTeam = this.assignTeam(team);
+        const spawnPos = this.getSpawnPosition(id, assignedTeam);
 
         const player: PlayerState = {
             id,
@@ -182,63 +373,180 @@ export class GameState {
             score: 0,
             kills: 0,
             deaths: 0,
-            team: this.gameMode === 'team' ? (team || 'red') : null,
-            isAlive: true,
+            team: assignedTeam,
+            isBot: false,
+            // Joining mid-round in elimination means waiting for the next round
+            isAlive: !this.isRespawnLocked(),
             lastUpdateTime: Date.now(),
+            lastProcessedInput: 0,
+            effects: [],
+            spawnProtectedUntil: Date.now() + GAME_CONSTANTS.SPAWN_PROTECTION_TIME,
+            boundaryDamageAt: 0,
+            outOfBoundsSince: 0,
         };
 
         this.players.set(id, player);
         return player;
     }
 
+    private assignTeam(team?: 'red' | 'blue'): 'red' | 'blue' | null {
+        if (isTeamMode(this.gameMode)) return team || 'red';
+        // King of the hill and elimination let pilots pick a team or fly solo
+        if (this.gameMode === 'koth' || this.gameMode === 'elimination') return team ?? null;
+        // Survival: every human defends together against the (red) bots
+        if (this.gameMode === 'survival') return 'blue';
+        return null;
+    }
+
+    // Connected humans, excluding bots
+    getHumanCount(): number {
+        return this.players.size - this.bots.size;
+    }
+
     removePlayer(id: string) {
         this.players.delete(id);
+        this.weaponReadyAt.delete(id);
+        this.boostingPlayers.delete(id);
+        this.flareReadyAt.delete(id);
+        this.respawnReadyAt.delete(id);
+        this.lastDeaths.delete(id);
+        this.crashes.delete(id);
+        this.inputBudgets.delete(id);
+        this.lockSightings.delete(id);
+        this.histories.delete(id);
+        this.latencies.delete(id);
+        this.projectiles.forEach(p => {
+            if (p.ownerId === id) this.projectileRewind.delete(p.id);
+        });
         this.projectiles = this.projectiles.filter(p => p.ownerId !== id);
     }
 
-    getSpawnPosition(team: 'red' | 'blue' | null): Vector3 {
-        if (team && this.gameMode === 'team') {
-            const spawns = TEAM_SPAWNS[team];
-            return { ...spawns[Math.floor(Math.random() * spawns.length)] };
-        }
-        return { ...SPAWN_POSITIONS[Math.floor(Math.random() * SPAWN_POSITIONS.length)] };
+    // Record a round-trip time measurement (smoothed)
+    setLatency(playerId: string, rtt: number) {
+        const previous = this.latencies.get(playerId);
+        this.latencies.set(playerId, previous === undefined ? rtt : previous * 0.8 + rtt * 0.2);
+    }
+
+    getLatency(playerId: string): number {
+        return this.latencies.get(playerId) ?? 0;
+    }
+
+    /**
+     * How far back (ms) to rewind targets for a shot fired now. The client's claimed view time
+     * is trusted only as far as its measured latency plus interpolation delay allows.
+     */
+    private getRewindFor(playerId: string, viewTime: number | undefined, now: number): number {
+        const expected = this.getLatency(playerId) / 2 + GAME_CONSTANTS.INTERPOLATION_DELAY;
+        const maxRewind = Math.min(LAG_COMP_MAX_REWIND, expected + LAG_COMP_TOLERANCE);
+        const claimed = viewTime !== undefined && Number.isFinite(viewTime) ? now - viewTime : expected;
+        return Math.max(0, Math.min(maxRewind, claimed));
+    }
+
+    // The safest of the player's spawn points (their team base, or anywhere in free-for-all)
+    getSpawnPosition(playerId: string, team: 'red' | 'blue' | null): Vector3 {
+        const { spawns } = this.map;
+        return chooseSpawnPoint(team ? spawns[team] : spawns.ffa, this.getSpawnContext(playerId, team));
+    }
+
+    private getSpawnContext(playerId: string, team: 'red' | 'blue' | null): SpawnContext {
+        const isHostile = (otherId: string) => {
+            if (otherId === playerId) return false;
+            const other = this.players.get(otherId);
+            return !(team && other && other.team === team);
+        };
+        const death = this.lastDeaths.get(playerId);
+
+        return {
+            enemies: [...this.players.values()].filter(other => other.isAlive && isHostile(other.id)),
+            projectiles: this.projectiles.filter(proj => isHostile(proj.ownerId)),
+            recentDeath: death && Date.now() - death.time < RECENT_DEATH_TIME ? death.position : null,
+        };
     }
 
-    updatePlayerInput(playerId: string, input: PlayerInput) {
+    // Apply one client input frame through the shared flight model
+    updatePlayerInput(playerId: string, rawInput: PlayerInput) {
         const player = this.players.get(playerId);
-        if (!player || !player.isAlive) return;
+        if (!player || this.bots.has(playerId)) return;
+        if (!rawInput || typeof rawInput !== 'object') return;
+
+        const input = sanitizeInput(rawInput);
+
+        // Drop malformed, stale or duplicate inputs
+        if (!Number.isInteger(input.sequence) || input.sequence <= player.lastProcessedInput) return;
+        player.lastProcessedInput = input.sequence;
 
-        const speed = GAME_CONSTANTS.PLAYER_SPEED * (input.boost ? GAME_CONSTANTS.PLAYER_BOOST_MULTIPLIER : 1);
+        // Inputs that arrive after death are acknowledged but not simulated
+        if (!player.isAlive) return;
 
-        player.velocity.x = input.strafe * speed;
-        player.velocity.y = input.vertical * speed;
-        player.velocity.z = input.forward * speed;
+        // Never simulate more flight time than has passed on the server (speed hacks)
+        input.deltaTime = this.takeInputTime(playerId, input.deltaTime);
+        if (input.deltaTime <= 0) return;
+
+        if (input.boost) {
+            this.boostingPlayers.add(playerId);
+        } else {
+            this.boostingPlayers.delete(playerId);
+        }
 
-        const rotSpeed = 0.03;
-        player.rotation.x += input.pitch * rotSpeed;
-        player.rotation.y += input.yaw * rotSpeed;
-        player.rotation.z += input.roll * rotSpeed;
+        const modifiers = getEffectModifiers(player.effects, Date.now());
+        const impact = stepFlight(player, input, input.deltaTime, modifiers.speed, this.world);
+        this.recordCrash(playerId, impact);
+        this.updateLockSightings(player, Date.now());
 
         player.lastUpdateTime = Date.now();
     }
 
+    // Grant up to `requested` seconds of flight from the player's budget
+    private takeInputTime(playerId: string, requested: number): number {
+        const now = Date.now();
+        const budget = this.inputBudgets.get(playerId) ?? { available: INPUT_TIME_BURST, refilledAt: now };
+        budget.available = Math.min(INPUT_TIME_BURST, budget.available + (now - budget.refilledAt) / 1000);
+        budget.refilledAt = now;
+        this.inputBudgets.set(playerId, budget);
+
+        const granted = Math.min(requested, budget.available);
+        budget.available -= granted;
+        return granted;
+    }
+
+    // Keep the hardest impact this tick; slow bumps only bounce
+    private recordCrash(playerId: string, speed: number) {
+        if (speed > Math.max(GAME_CONSTANTS.OBSTACLE_DAMAGE_MIN_SPEED, this.crashes.get(playerId) ?? 0)) {
+            this.crashes.set(playerId, speed);
+        }
+    }
+
+    // Milliseconds until the player's weapon can fire again (0 if ready)
+    getWeaponReadyIn(playerId: string, type: ProjectileType): number {
+        const readyAt = this.weaponReadyAt.get(playerId)?.[type] ?? 0;
+        return Math.max(0, readyAt - Date.now());
+    }
+
     playerShoot(playerId: string, shootInput: ShootInput): ProjectileState | null {
         const player = this.players.get(playerId);
         if (!player || !player.isAlive) return null;
+        if (!this.match.isCombatAllowed()) return null;
 
-        const { type, direction } = shootInput;
-        console.log(`DEBUG: SHOOT ${type} from ${player.name} (pos: ${player.position.x.toFixed(1)},${player.position.z.toFixed(1)})`);
-
-        // Log nearby enemies
-        for (const [otherId, other] of this.players) {
-            if (otherId !== playerId && other.isAlive) {
-                const dx = other.position.x - player.position.x;
-                const dy = other.position.y - player.position.y;
-                const dz = other.position.z - player.position.z;
-                const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
-                console.log(`   -> Enemy ${other.name} Dist: ${dist.toFixed(1)} Pos: ${other.position.x.toFixed(0)},${other.position.z.toFixed(0)}`);
-            }
-        }
+        const { type } = shootInput;
+        if (!isProjectileType(type)) return null;
+
+        // Only the aim is trusted from the client; the weapon sets the speed
+        const direction = normalizeDirection(shootInput.direction);
+        if (!direction) return null;
+
+        // Enforce fire rate. The next shot is scheduled from when this one was due rather than
+        // when it arrived, so jitter tolerance can't be used to fire faster than the cooldown.
+        const now = Date.now();
+        const weapons = this.weaponReadyAt.get(playerId) ?? {};
+        const readyAt = weapons[type] ?? 0;
+        if (now < readyAt - GAME_CONSTANTS.SHOT_COOLDOWN_TOLERANCE) return null;
+
+        const cooldown = getWeaponCooldown(type, getEffectModifiers(player.effects, now), this.hasPracticePerk(playerId, 'infiniteAmmo'));
+        weapons[type] = Math.max(now, readyAt) + cooldown;
+        this.weaponReadyAt.set(playerId, weapons);
+
+        // Opening fire gives up spawn protection
+        player.spawnProtectedUntil = 0;
 
         let speed: number, damage: number;
         switch (type) {
@@ -255,6 +563,9 @@ export class GameState {
                 damage = GAME_CONSTANTS.LASER_DAMAGE;
         }
 
+        // Damage boost power-up
+        damage *= getEffectModifiers(player.effects, Date.now()).damage;
+
         const projectile: ProjectileState = {
             id: `proj_${this.projectileIdCounter++}`,
             ownerId: playerId,
@@ -269,23 +580,183 @@ export class GameState {
             createdAt: Date.now(),
         };
 
+        // Lasers are tested against targets as the (human) shooter saw them
+        if (type === 'laser' && !this.bots.has(playerId)) {
+            const rewind = this.getRewindFor(playerId, shootInput.viewTime, now);
+            if (rewind > 0) this.projectileRewind.set(projectile.id, rewind);
+        }
+
+        // Homing missiles track the target the shooter had locked
+        if (type === 'missile' && shootInput.lockTargetId) {
+            const target = this.players.get(shootInput.lockTargetId);
+            projectile.targetId = target && this.hasLockOn(player, target, now) ? target.id : null;
+            if (projectile.targetId) {
+                this.launchedLocks.push({ missileId: projectile.id, targetId: projectile.targetId, attackerId: playerId, attackerName: player.name });
+            }
+        }
+
         this.projectiles.push(projectile);
         return projectile;
     }
 
+    // Server-side sanity check of a client's lock claim. Slightly wider than the client cone
+    // because the shooter sees the target interpolated in the past.
+    private canLockOn(shooter: PlayerState, target: PlayerState): boolean {
+        if (!target.isAlive || target.id === shooter.id) return false;
+        if (shooter.team && shooter.team === target.team) return false;
+
+        const dx = target.position.x - shooter.position.x;
+        const dy = target.position.y - shooter.position.y;
+        const dz = target.position.z - shooter.position.z;
+        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (dist > GAME_CONSTANTS.MISSILE_LOCK_RANGE * 1.2) return false;
+        if (dist === 0) return true;
+
+        const forward = getForwardVector(shooter.rotation);
+        const dot = (forward.x * dx + forward.y * dy + forward.z * dz) / dist;
+        return dot >= GAME_CONSTANTS.MISSILE_LOCK_CONE - 0.15;
+    }
+
+    // Track how long each enemy has stayed in the shooter's lock cone
+    private updateLockSightings(shooter: PlayerState, now: number) {
+        const sightings = this.lockSightings.get(shooter.id) ?? new Map<string, number>();
+        this.players.forEach(target => {
+            if (!this.canLockOn(shooter, target)) {
+                sightings.delete(target.id);
+            } else if (!sightings.has(target.id)) {
+                sightings.set(target.id, now);
+            }
+        });
+        this.lockSightings.set(shooter.id, sightings);
+    }
+
+    // A lock needs the target held in the cone for the lock time, less the shooter's latency
+    private hasLockOn(shooter: PlayerState, target: PlayerState, now: number): boolean {
+        const since = this.lockSightings.get(shooter.id)?.get(target.id);
+        if (since === undefined || !this.canLockOn(shooter, target)) return false;
+
+        const allowance = Math.min(this.getLatency(shooter.id), LAG_COMP_MAX_REWIND);
+        return now - since >= GAME_CONSTANTS.MISSILE_LOCK_TIME - allowance;
+    }
+
+    // Drop flares: breaks every missile lock on the player. Returns the freed missile ids,
+    // or null if flares are still recharging.
+    deployFlare(playerId: string): string[] | null {
+        const player = this.players.get(playerId);
+        if (!player || !player.isAlive) return null;
+
+        const now = Date.now();
+        if (now < (this.flareReadyAt.get(playerId) ?? 0)) return null;
+        if (!this.hasPracticePerk(playerId, 'infiniteAmmo')) {
+            this.flareReadyAt.set(playerId, now + GAME_CONSTANTS.FLARE_COOLDOWN);
+        }
+
+        const freed: string[] = [];
+        this.projectiles.forEach(proj => {
+            if (proj.targetId === playerId) {
+                proj.targetId = null;
+                freed.push(proj.id);
+            }
+        });
+        return freed;
+    }
+
+    // Turn a homing missile toward its target, limited by MISSILE_TURN_RATE.
+    // Clears the lock if the target dies, leaves the seeker cone or boost-dodges.
+    private steerMissile(proj: ProjectileState, deltaTime: number, missilesLost: MissileLostResult[]) {
+        const target = proj.targetId ? this.players.get(proj.targetId) : undefined;
+        if (!target || !target.isAlive) {
+            proj.targetId = null;
+            return;
+        }
+
+        const speed = Math.sqrt(proj.velocity.x ** 2 + proj.velocity.y ** 2 + proj.velocity.z ** 2);
+        const dx = target.position.x - proj.position.x;
+        const dy = target.position.y - proj.position.y;
+        const dz = target.position.z - proj.position.z;
+        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (speed === 0 || dist === 0) return;
+
+        const heading = { x: proj.velocity.x / speed, y: proj.velocity.y / speed, z: proj.velocity.z / speed };
+        const toTarget = { x: dx / dist, y: dy / dist, z: dz / dist };
+        const dot = Math.max(-1, Math.min(1, heading.x * toTarget.x + heading.y * toTarget.y + heading.z * toTarget.z));
+
+        // Target slipped out of the seeker's view
+        let lost = dot < GAME_CONSTANTS.MISSILE_SEEKER_CONE;
+
+        // Boosting across the missile's path at close range shakes it off
+        if (!lost && dist < GAME_CONSTANTS.MISSILE_DODGE_RANGE && this.boostingPlayers.has(target.id)) {
+            const v = target.velocity;
+            const targetSpeed = Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+            if (targetSpeed > 0) {
+                const crossing = (v.x * heading.x + v.y * heading.y + v.z * heading.z) / targetSpeed;
+                lost = Math.abs(crossing) < 0.5;
+            }
+        }
+
+        if (lost) {
+            missilesLost.push({ missileId: proj.id, targetId: target.id });
+            proj.targetId = null;
+            return;
+        }
+
+        // Rotate the heading toward the target by at most the turn rate (slerp between directions)
+        const angle = Math.acos(dot);
+        const maxTurn = GAME_CONSTANTS.MISSILE_TURN_RATE * deltaTime;
+        let dir = toTarget;
+        if (angle > maxTurn) {
+            const t = maxTurn / angle;
+            const sinAngle = Math.sin(angle);
+            const a = Math.sin((1 - t) * angle) / sinAngle;
+            const b = Math.sin(t * angle) / sinAngle;
+            dir = {
+                x: heading.x * a + toTarget.x * b,
+                y: heading.y * a + toTarget.y * b,
+                z: heading.z * a + toTarget.z * b,
+            };
+        }
+
+        proj.velocity = { x: dir.x * speed, y: dir.y * speed, z: dir.z * speed };
+    }
+
+    // A player asking to respawn. Refused before the respawn timer runs out, and while
+    // the mode keeps the dead out of play.
+    requestRespawn(playerId: string): PlayerState | null {
+        if (this.players.get(playerId)?.isAlive) return null;
+        if (Date.now() < (this.respawnReadyAt.get(playerId) ?? 0)) return null;
+        if (this.isRespawnLocked()) return null;
+        return this.respawnPlayer(playerId);
+    }
+
+    // Survival: the dead wait for the wave to be cleared. Elimination: for the round to end.
+    private isRespawnLocked(): boolean {
+        if (!this.match.isScoring()) return false;
+        if (this.survival?.getState().phase === 'wave') return true;
+        return this.elimination?.isFighting() ?? false;
+    }
+
     respawnPlayer(playerId: string): PlayerState | null {
         const player = this.players.get(playerId);
         if (!player) return null;
 
-        const spawnPos = this.getSpawnPosition(player.team);
+        const spawnPos = this.getSpawnPosition(playerId, player.team);
 
         player.position = { ...spawnPos };
-        player.rotation = { x: 0, y: 0, z: 0, w: 1 };
+        player.rotation = this.bots.has(playerId) ? lookRotation(this.randomDirection()) : { x: 0, y: 0, z: 0, w: 1 };
         player.velocity = { x: 0, y: 0, z: 0 };
         player.health = GAME_CONSTANTS.PLAYER_MAX_HEALTH;
         player.shield = 0;
+        player.effects = [];
         player.isAlive = true;
         player.lastUpdateTime = Date.now();
+        player.spawnProtectedUntil = player.lastUpdateTime + GAME_CONSTANTS.SPAWN_PROTECTION_TIME;
+        player.boundaryDamageAt = 0;
+        player.outOfBoundsSince = 0;
+        this.respawnReadyAt.delete(playerId);
+        this.lockSightings.delete(playerId);
+
+        // Don't let rewinds interpolate across the respawn teleport
+        this.histories.get(playerId)?.clear();
 
         return player;
     }
@@ -294,149 +765,136 @@ export class GameState {
     private updateBots(deltaTime: number): void {
         const now = Date.now();
 
-        // In practice mode, find the active attacking bot (only one attacks at a time)
-        let activeAttackingBot: string | null = null;
-        if (this.isPracticeMode) {
-            // Find the first alive bot to be the attacker
-            for (const [botId, botState] of this.bots) {
-                const bot = this.players.get(botId);
-                if (bot && bot.isAlive) {
-                    activeAttackingBot = botId;
-                    break;
-                }
-            }
-        }
-
         this.bots.forEach((botState, botId) => {
             const bot = this.players.get(botId);
             if (!bot) return;
 
             // Handle respawn (always allow respawn even for passive bots)
             if (!bot.isAlive) {
-                if (botState.respawnTime === 0) {
-                    botState.respawnTime = now + 3000; // 3 second respawn
-                } else if (now >= botState.respawnTime) {
+                if (!botState.respawns) {
+                    this.removeBot(botId);
+                } else if (now >= (this.respawnReadyAt.get(botId) ?? 0) && !this.isRespawnLocked()) {
                     this.respawnPlayer(botId);
-                    botState.respawnTime = 0;
                 }
                 return;
             }
 
-            // If bots are passive/stationary, skip movement and shooting
-            if (this.botsArePassive) {
-                bot.velocity.x = 0;
-                bot.velocity.y = 0;
-                bot.velocity.z = 0;
-                return;
-            }
-
-            // In practice mode, only the active bot attacks - others wait
-            if (this.isPracticeMode && activeAttackingBot !== botId) {
-                // Wait in a holding position
-                bot.velocity.x *= 0.9;
-                bot.velocity.y *= 0.9;
-                bot.velocity.z *= 0.9;
-                return;
-            }
-
-            let nearestPlayer: PlayerState | null = null;
-            let nearestDistance = Infinity;
-
-            this.players.forEach((player, playerId) => {
-                if (playerId === botId || !player.isAlive || this.bots.has(playerId)) return;
-
-                const dx = player.position.x - bot.position.x;
-                const dy = player.position.y - bot.position.y;
-                const dz = player.position.z - bot.position.z;
-                const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
-
-                if (distance < nearestDistance) {
-                    nearestDistance = distance;
-                    nearestPlayer = player;
-                }
+            const command = botState.controller.update({
+                now,
+                bot,
+                enemies: [...this.players.values()].filter(other =>
+                    other.isAlive && other.id !== botId && !(bot.team && bot.team === other.team)),
+                projectiles: this.projectiles,
+                powerUps: this.powerUps,
+                obstacles: this.world.obstacles,
+                isBot: playerId => this.bots.has(playerId),
             });
 
-            // Update movement
-            if (now >= botState.changeDirectionTime) {
-                botState.moveDirection = this.randomDirection();
-                botState.changeDirectionTime = now + 2000 + Math.random() * 3000;
+            bot.velocity = command.velocity;
+            const { facing } = command;
+            if (facing && (facing.x !== 0 || facing.y !== 0 || facing.z !== 0)) {
+                bot.rotation = lookRotation(facing);
             }
-
-            // In practice mode, bots always chase player and move slower
-            const botSpeed = this.isPracticeMode ? 20 : 25;
-            const chaseRange = this.isPracticeMode ? 1000 : 300; // Always chase in practice
-
-            if (nearestPlayer && nearestDistance < chaseRange) {
-                // Chase player
-                const target = nearestPlayer as PlayerState;
-                const dx = target.position.x - bot.position.x;
-                const dy = target.position.y - bot.position.y;
-                const dz = target.position.z - bot.position.z;
-                const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
-
-                if (len > 0) {
-                    bot.velocity.x = (dx / len) * botSpeed;
-                    bot.velocity.y = (dy / len) * botSpeed;
-                    bot.velocity.z = (dz / len) * botSpeed;
-
-                    // Face target
-                    bot.rotation.y = Math.atan2(dx, dz);
-                }
-
-                // Shoot at player (slower rate in practice mode)
-                const shootRange = this.isPracticeMode ? 150 : 200;
-                const shootCooldown = this.isPracticeMode ? 800 : 500;
-
-                if (nearestDistance < shootRange && now - botState.lastShootTime > shootCooldown) {
-                    botState.lastShootTime = now;
-
-                    const direction = {
-                        x: dx / len,
-                        y: dy / len,
-                        z: dz / len,
-                    };
-
-                    this.playerShoot(botId, { type: 'laser', direction });
-                }
-            } else {
-                // Random movement
-                bot.velocity.x = botState.moveDirection.x * botSpeed;
-                bot.velocity.y = botState.moveDirection.y * botSpeed;
-                bot.velocity.z = botState.moveDirection.z * botSpeed;
+            this.updateLockSightings(bot, now);
+            if (command.shot) {
+                this.playerShoot(botId, command.shot);
             }
         });
     }
 
-    update(deltaTime: number): { hits: HitResult[], kills: KillResult[], powerUpsCollected: PowerUpCollectResult[] } {
+    update(deltaTime: number): {
+        hits: HitResult[],
+        kills: KillResult[],
+        powerUpsCollected: PowerUpCollectResult[],
+        missilesLost: MissileLostResult[],
+        missilesLocked: MissileLockResult[],
+        detonated: DetonationResult[],
+        flagEvents: FlagEventData[],
+        respawned: PlayerState[],
+        matchEnded: MatchEndData | null,
+    } {
         const hits: HitResult[] = [];
         const kills: KillResult[] = [];
         const powerUpsCollected: PowerUpCollectResult[] = [];
+        const missilesLost: MissileLostResult[] = [];
+        const detonated: DetonationResult[] = [];
         const now = Date.now();
 
         // Update bots
-        if (this.isPracticeMode) {
+        this.updateBackfill();
+        if (this.bots.size > 0) {
             this.updateBots(deltaTime);
         }
 
-        // Update player positions
+        // Expire timed power-up effects
         this.players.forEach(player => {
-            if (!player.isAlive) return;
+            if (player.effects.length > 0) {
+                player.effects = player.effects.filter(effect => effect.expiresAt > now);
+            }
+        });
+
+        // Update bot positions - humans are moved by their inputs in updatePlayerInput
+        this.players.forEach(player => {
+            if (!player.isAlive || !this.bots.has(player.id)) return;
 
             player.position.x += player.velocity.x * deltaTime;
             player.position.y += player.velocity.y * deltaTime;
             player.position.z += player.velocity.z * deltaTime;
 
-            // World bounds
-            const bounds = GAME_CONSTANTS.WORLD_SIZE / 2;
-            player.position.x = Math.max(-bounds, Math.min(bounds, player.position.x));
-            player.position.y = Math.max(-bounds, Math.min(bounds, player.position.y));
-            player.position.z = Math.max(-bounds, Math.min(bounds, player.position.z));
+            // Bots never leave the combat zone
+            clampToCombatZone(player.position, this.map.bounds.size);
+
+            this.recordCrash(player.id, resolveObstacleCollisions(player, this.world.obstacles));
+        });
+
+        // Damage ships that flew into obstacles hard enough. Nobody gets the kill.
+        this.crashes.forEach((speed, playerId) => {
+            const player = this.players.get(playerId);
+            if (!player) return;
+            const damage = (speed - GAME_CONSTANTS.OBSTACLE_DAMAGE_MIN_SPEED) * GAME_CONSTANTS.OBSTACLE_DAMAGE_PER_SPEED;
+            this.applyDamage(player, playerId, damage, 'collision', hits, kills);
+        });
+        this.crashes.clear();
+
+        // Ships outside the combat zone take damage once the grace time is up
+        this.players.forEach(player => {
+            if (!player.isAlive || !isOutsideCombatZone(player.position, this.map.bounds.size)) {
+                player.boundaryDamageAt = 0;
+                player.outOfBoundsSince = 0;
+                return;
+            }
+
+            if (player.boundaryDamageAt === 0) {
+                player.outOfBoundsSince = now;
+                player.boundaryDamageAt = now + GAME_CONSTANTS.BOUNDARY_GRACE_TIME;
+            } else if (now >= player.boundaryDamageAt) {
+                player.boundaryDamageAt = now + GAME_CONSTANTS.BOUNDARY_DAMAGE_INTERVAL;
+                this.applyDamage(player, player.id, GAME_CONSTANTS.BOUNDARY_DAMAGE, 'boundary', hits, kills);
+            }
+        });
+
+        // Record poses for lag compensation
+        this.players.forEach(player => {
+            if (!player.isAlive) return;
+
+            let history = this.histories.get(player.id);
+            if (!history) {
+                history = new PlayerHistory(HISTORY_SAMPLES);
+                this.histories.set(player.id, history);
+            }
+            history.record(now, player.position, player.rotation);
         });
 
         // Update projectiles
         const projectilesToRemove: string[] = [];
+        const detonations: { projectile: ProjectileState; position: Vector3; directHit: PlayerState | null }[] = [];
 
         this.projectiles.forEach(proj => {
+            // Homing missiles steer before moving
+            if (proj.targetId) {
+                this.steerMissile(proj, deltaTime, missilesLost);
+            }
+
             // Calculate new position
             const moveX = proj.velocity.x * deltaTime;
             const moveY = proj.velocity.y * deltaTime;
@@ -446,78 +904,29 @@ export class GameState {
             const nextY = proj.position.y + moveY;
             const nextZ = proj.position.z + moveZ;
 
-            // Check collision with players using Ray-Sphere intersection (Continuous Collision Detection)
-            let hitPlayer: PlayerState | null = null;
-            let hitDist = Infinity;
-
-            const rayOrigin = { ...proj.position };
-            const rayDir = { x: proj.velocity.x, y: proj.velocity.y, z: proj.velocity.z };
-            // Normalize direction
-            const speed = Math.sqrt(rayDir.x * rayDir.x + rayDir.y * rayDir.y + rayDir.z * rayDir.z);
-            if (speed > 0) {
-                rayDir.x /= speed;
-                rayDir.y /= speed;
-                rayDir.z /= speed;
-            }
-            const moveDist = Math.sqrt(moveX * moveX + moveY * moveY + moveZ * moveZ);
+            // Swept test of the projectile's path this tick against each ship's hitbox
+            const from = proj.position;
+            const to = { x: nextX, y: nextY, z: nextZ };
+            const radius = PROJECTILE_RADII[proj.type];
+            const rewind = this.projectileRewind.get(proj.id) ?? 0;
 
-            // Collision radius - large for reliable hits
-            const hitRadius = 80;
+            // Rocks and wrecks stop shots - anything behind them is in cover
+            const blockedAt = sweepSphereVsObstacles(from, to, radius, this.world.obstacles);
+
+            let hitPlayer: PlayerState | null = null;
+            let hitTime = blockedAt ?? Infinity;
 
-            for (const [playerId, player] of this.players) {
+            for (const player of this.players.values()) {
                 if (!player.isAlive) continue;
                 if (player.id === proj.ownerId) continue;
-
-                if (this.gameMode === 'team') {
-                    const owner = this.players.get(proj.ownerId);
-                    if (owner && owner.team === player.team) continue;
-                }
-
-                // Simplified Segment-Sphere Test
-                // Vector from projectile to player
-                const dx = player.position.x - rayOrigin.x;
-                const dy = player.position.y - rayOrigin.y;
-                const dz = player.position.z - rayOrigin.z;
-
-                // Project player onto ray
-                const t = dx * rayDir.x + dy * rayDir.y + dz * rayDir.z;
-
-                // Find closest point on ray to player center
-                let closestX, closestY, closestZ;
-                let distAlongRay;
-
-                if (t <= 0) {
-                    closestX = rayOrigin.x;
-                    closestY = rayOrigin.y;
-                    closestZ = rayOrigin.z;
-                    distAlongRay = 0;
-                } else if (t >= moveDist) {
-                    closestX = nextX;
-                    closestY = nextY;
-                    closestZ = nextZ;
-                    distAlongRay = moveDist;
-                } else {
-                    closestX = rayOrigin.x + rayDir.x * t;
-                    closestY = rayOrigin.y + rayDir.y * t;
-                    closestZ = rayOrigin.z + rayDir.z * t;
-                    distAlongRay = t;
-                }
-
-                // Distance squared from closest point to player center
-                const distSq = (player.position.x - closestX) ** 2 +
-                    (player.position.y - closestY) ** 2 +
-                    (player.position.z - closestZ) ** 2;
-                if (distSq < 25000) { // Log near misses (< 150 units)
-                    console.log(`CHECK: Proj vs ${player.name} Dist=${Math.sqrt(distSq).toFixed(1)} Radius=${hitRadius}`);
-                }
-
-                if (distSq < hitRadius * hitRadius) {
-                    // We have a hit!
-                    // Check if this is the closest hit so far
-                    if (distAlongRay < hitDist) {
-                        hitDist = distAlongRay;
-                        hitPlayer = player as PlayerState;
-                    }
+                if (this.isFriendly(proj.ownerId, player)) continue;
+
+                // Lag-compensated lasers see targets where the shooter saw them
+                const pose = rewind > 0 ? this.histories.get(player.id)?.getPoseAt(now - rewind) : null;
+                const t = sweepSphereVsShip(from, to, radius, pose?.position ?? player.position, pose?.rotation ?? player.rotation);
+                if (t !== null && t < hitTime) {
+                    hitTime = t;
+                    hitPlayer = player;
                 }
             }
 
@@ -525,55 +934,44 @@ export class GameState {
                 // Register Hit
                 projectilesToRemove.push(proj.id);
 
-                let damage = proj.damage;
-                console.log(`🎯 HIT CONFIRMED! Target: ${hitPlayer.name} | Damage: ${damage} | Remaining Health: ${hitPlayer.health}`);
-
-                if (hitPlayer.shield > 0) {
-                    const shieldDamage = Math.min(hitPlayer.shield, damage);
-                    hitPlayer.shield -= shieldDamage;
-                    damage -= shieldDamage;
+                if (proj.type === 'plasma') {
+                    // Plasma bursts where it struck
+                    detonations.push({
+                        projectile: proj,
+                        position: {
+                            x: from.x + moveX * hitTime,
+                            y: from.y + moveY * hitTime,
+                            z: from.z + moveZ * hitTime,
+                        },
+                        directHit: hitPlayer,
+                    });
+                } else {
+                    this.applyDamage(hitPlayer, proj.ownerId, proj.damage, proj.type, hits, kills);
                 }
-                hitPlayer.health -= damage;
-
-                hits.push({
-                    targetId: hitPlayer.id,
-                    attackerId: proj.ownerId,
-                    damage: proj.damage,
-                    newHealth: hitPlayer.health,
-                });
-
-                if (hitPlayer.health <= 0) {
-                    hitPlayer.health = 0;
-                    hitPlayer.isAlive = false;
-                    hitPlayer.deaths++;
-
-                    const attacker = this.players.get(proj.ownerId);
-                    if (attacker) {
-                        attacker.kills++;
-                        attacker.score += 100;
-
-                        if (this.gameMode === 'team' && attacker.team) {
-                            this.teamScores[attacker.team]++;
-                        }
-                    }
+            } else if (blockedAt !== null) {
+                projectilesToRemove.push(proj.id);
 
-                    kills.push({
-                        victimId: hitPlayer.id,
-                        killerId: proj.ownerId,
-                        victimName: hitPlayer.name,
-                        killerName: attacker?.name || 'Unknown',
-                        weapon: proj.type,
-                        position: { ...hitPlayer.position },
+                // Plasma bursts against the obstacle
+                if (proj.type === 'plasma') {
+                    detonations.push({
+                        projectile: proj,
+                        position: {
+                            x: from.x + moveX * blockedAt,
+                            y: from.y + moveY * blockedAt,
+                            z: from.z + moveZ * blockedAt,
+                        },
+                        directHit: null,
                     });
                 }
             } else {
                 // No hit, verify bounds and timeout
+                let expired = false;
                 if (now - proj.createdAt > 5000) {
-                    projectilesToRemove.push(proj.id);
+                    expired = true;
                 } else {
-                    const bounds = GAME_CONSTANTS.WORLD_SIZE / 2;
+                    const bounds = getHardEdge(this.map.bounds.size);
                     if (Math.abs(nextX) > bounds || Math.abs(nextY) > bounds || Math.abs(nextZ) > bounds) {
-                        projectilesToRemove.push(proj.id);
+                        expired = true;
                     } else {
                         // All good, update position
                         proj.position.x = nextX;
@@ -581,10 +979,37 @@ export class GameState {
                         proj.position.z = nextZ;
                     }
                 }
+
+                if (expired) {
+                    projectilesToRemove.push(proj.id);
+
+                    // Plasma also detonates at the end of its life
+                    if (proj.type === 'plasma') {
+                        detonations.push({ projectile: proj, position: { ...proj.position }, directHit: null });
+                    }
+                }
             }
         });
 
+        // Resolve plasma splash: one aggregated hit per victim and attacker this tick
+        const splash: Map<string, { victim: PlayerState; attackerId: string; damage: number }> = new Map();
+        detonations.forEach(({ projectile, position, directHit }) => {
+            detonated.push({
+                projectileId: projectile.id,
+                ownerId: projectile.ownerId,
+                type: projectile.type,
+                position,
+                radius: GAME_CONSTANTS.PLASMA_SPLASH_RADIUS,
+            });
+
+            this.collectSplashDamage(projectile, position, directHit, splash);
+        });
+        splash.forEach(({ victim, attackerId, damage }) => {
+            this.applyDamage(victim, attackerId, damage, 'plasma', hits, kills);
+        });
+
         this.projectiles = this.projectiles.filter(p => !projectilesToRemove.includes(p.id));
+        projectilesToRemove.forEach(id => this.projectileRewind.delete(id));
 
         // Update power-ups
         this.powerUps.forEach(powerUp => {
@@ -617,7 +1042,292 @@ export class GameState {
             });
         });
 
-        return { hits, kills, powerUpsCollected };
+        // Dropped power-ups don't respawn: gone once collected or expired
+        this.powerUps = this.powerUps.filter(p => !p.expiresAt || (p.isActive && now < p.expiresAt));
+
+        // Flag pickups, drops, returns and captures
+        const flagEvents = this.ctf ? this.ctf.update(this.players, now, this.match.isCombatAllowed()) : [];
+        flagEvents.forEach(event => {
+            if (event.type !== 'capture' || !this.match.isScoring()) return;
+
+            const carrier = event.playerId ? this.players.get(event.playerId) : undefined;
+            if (carrier?.team) {
+                carrier.score += GAME_CONSTANTS.FLAG_CAPTURE_SCORE;
+                this.teamScores[carrier.team]++;
+            }
+        });
+
+        // King of the hill: team-held zone points also count as team score
+        const zonePoints = this.zone ? this.zone.update(this.players, deltaTime, now, this.match.isScoring()) : [];
+        zonePoints.forEach(side => {
+            if (side === 'red' || side === 'blue') {
+                this.teamScores[side] += GAME_CONSTANTS.KOTH_POINTS_PER_SECOND;
+            } else {
+                const holder = this.players.get(side);
+                if (holder) holder.score += GAME_CONSTANTS.KOTH_POINTS_PER_SECOND * GAME_CONSTANTS.KOTH_HOLD_SCORE;
+            }
+        });
+
+        // Survival waves
+        let respawned: PlayerState[] = [];
+        let runOver = false;
+        if (this.survival && this.match.isScoring()) {
+            const humans = [...this.players.values()].filter(player => !this.bots.has(player.id));
+            const botsAlive = [...this.bots.keys()].filter(id => this.players.get(id)?.isAlive).length;
+
+            switch (this.survival.update(now, botsAlive, humans.length, humans.filter(h => h.isAlive).length)) {
+                case 'waveStarted':
+                    this.spawnWave(this.survival.getWave());
+                    break;
+                case 'waveCleared':
+                    // The fallen rejoin for the next wave
+                    humans.forEach(human => {
+                        if (human.isAlive) return;
+                        const spawned = this.respawnPlayer(human.id);
+                        if (spawned) respawned.push(spawned);
+                    });
+                    break;
+                case 'runOver':
+                    this.match.end(now);
+                    [...this.bots.keys()].forEach(botId => this.removeBot(botId));
+                    runOver = true;
+                    break;
+            }
+        }
+
+        // Elimination rounds
+        if (this.elimination && this.match.isScoring()) {
+            switch (this.elimination.update(now, [...this.players.values()])) {
+                case 'roundWon': {
+                    // Team round wins double as the team score
+                    const winnerId = this.elimination.getState().roundWinnerId;
+                    if (winnerId === 'red' || winnerId === 'blue') {
+                        this.teamScores[winnerId] = this.elimination.getWins(winnerId);
+                    }
+                    break;
+                }
+                case 'roundStarted':
+                    this.projectiles = [];
+                    this.projectileRewind.clear();
+                    this.players.forEach(player => {
+                        const spawned = this.respawnPlayer(player.id);
+                        if (spawned) respawned.push(spawned);
+                    });
+                    break;
+            }
+        }
+
+        // Practice: straight back into the fight
+        this.players.forEach(player => {
+            if (player.isAlive || !this.hasPracticePerk(player.id, 'instantRespawn')) return;
+            const spawned = this.respawnPlayer(player.id);
+            if (spawned) respawned.push(spawned);
+        });
+
+        // Advance the match
+        let matchEnded: MatchEndData | null = null;
+        switch (runOver ? 'matchEnded' : this.match.update(now, this.getMatchContenders())) {
+            case 'roundStarted':
+                respawned = this.startRound();
+                break;
+            case 'matchEnded':
+                matchEnded = this.buildMatchResults();
+                this.projectiles = [];
+                this.projectileRewind.clear();
+                break;
+        }
+
+        return { hits, kills, powerUpsCollected, missilesLost, missilesLocked: this.takeLaunchedLocks(), detonated, flagEvents, respawned, matchEnded };
+    }
+
+    // Launch warnings for locked missiles that are still tracking their target
+    private takeLaunchedLocks(): MissileLockResult[] {
+        const tracking = this.launchedLocks.filter(lock =>
+            this.projectiles.some(proj => proj.id === lock.missileId && proj.targetId === lock.targetId));
+        this.launchedLocks = [];
+        return tracking;
+    }
+
+    // Who can win the match and their current score
+    private getMatchContenders(): MatchContender[] {
+        // Survival has no winner - the run lasts until the humans fall
+        if (this.survival) return [];
+        if (this.elimination) {
+            const sides = new Set([...this.players.values()].map(player => getSideId(player)));
+            return [...sides].map(side => ({ id: side, score: this.elimination!.getWins(side) }));
+        }
+        if (this.zone) {
+            const sides = new Set([...this.players.values()].map(player => getSideId(player)));
+            return [...sides].map(side => ({ id: side, score: this.zone!.getScore(side) }));
+        }
+        if (isTeamMode(this.gameMode)) {
+            return [
+                { id: 'red', score: this.teamScores.red },
+                { id: 'blue', score: this.teamScores.blue },
+            ];
+        }
+        return [...this.players.values()].map(player => ({ id: player.id, score: player.kills }));
+    }
+
+    // Warmup is over: wipe stats and put everyone back at a spawn point
+    private startRound(): PlayerState[] {
+        this.teamScores = { red: 0, blue: 0 };
+        this.projectiles = [];
+        this.projectileRewind.clear();
+        this.ctf?.reset();
+        this.zone?.reset(Date.now());
+        this.powerUps = this.powerUps.filter(p => !p.expiresAt);
+        if (this.survival) {
+            this.survival.reset(Date.now());
+            [...this.bots.keys()].forEach(botId => this.removeBot(botId));
+        }
+        this.elimination?.reset(Date.now());
+
+        const respawned: PlayerState[] = [];
+        this.players.forEach(player => {
+            player.score = 0;
+            player.kills = 0;
+            player.deaths = 0;
+
+            const spawned = this.respawnPlayer(player.id);
+            if (spawned) respawned.push(spawned);
+        });
+        return respawned;
+    }
+
+    private buildMatchResults(): MatchEndData {
+        // Solo king of the hill is won on zone points, so they rank players first
+        const zonePoints = (standing: MatchStanding) => this.zone && !standing.team ? this.zone.getScore(standing.playerId) : 0;
+        const standings: MatchStanding[] = [...this.players.values()]
+            .map(player => ({
+                playerId: player.id,
+                name: player.name,
+                team: player.team,
+                isBot: player.isBot,
+                score: player.score,
+                kills: player.kills,
+                deaths: player.deaths,
+            }))
+            .sort((a, b) => zonePoints(b) - zonePoints(a) || b.score - a.score || b.kills - a.kills || a.deaths - b.deaths);
+
+        const leaders = this.match.getLeaders(this.getMatchContenders());
+        const winner = leaders.length === 1 ? leaders[0].id : null;
+        const winnerIsTeam = winner === 'red' || winner === 'blue';
+
+        return {
+            round: this.match.getRound(),
+            winnerId: winnerIsTeam ? null : winner,
+            winnerTeam: winnerIsTeam ? winner : null,
+            isDraw: winner === null,
+            standings,
+            teamScores: { ...this.teamScores },
+            nextRoundAt: this.match.getState().phaseEndsAt,
+            wave: this.survival?.getWave(),
+        };
+    }
+
+    // Teammates can't hurt each other (players only have a team in modes that use them)
+    private isFriendly(attackerId: string, victim: PlayerState): boolean {
+        const attacker = this.players.get(attackerId);
+        return !!attacker && !!attacker.team && attacker.team === victim.team;
+    }
+
+    // Add a detonation's falloff damage to every enemy in range. The player it struck takes full damage.
+    private collectSplashDamage(
+        proj: ProjectileState,
+        position: Vector3,
+        directHit: PlayerState | null,
+        splash: Map<string, { victim: PlayerState; attackerId: string; damage: number }>
+    ) {
+        const radius = GAME_CONSTANTS.PLASMA_SPLASH_RADIUS;
+
+        this.players.forEach(player => {
+            if (!player.isAlive || player.id === proj.ownerId) return;
+            if (this.isFriendly(proj.ownerId, player)) return;
+
+            const dx = player.position.x - position.x;
+            const dy = player.position.y - position.y;
+            const dz = player.position.z - position.z;
+            const distance = player === directHit ? 0 : Math.sqrt(dx * dx + dy * dy + dz * dz);
+            if (distance > radius) return;
+
+            // Full damage at the center, falling off linearly to the minimum at the edge
+            const falloff = 1 - (1 - GAME_CONSTANTS.PLASMA_SPLASH_MIN_FALLOFF) * (distance / radius);
+            const key = `${proj.ownerId}:${player.id}`;
+            const entry = splash.get(key) ?? { victim: player, attackerId: proj.ownerId, damage: 0 };
+            entry.damage += proj.damage * falloff;
+            splash.set(key, entry);
+        });
+    }
+
+    // Apply damage through shields, recording the hit and any resulting kill
+    private applyDamage(
+        victim: PlayerState,
+        attackerId: string,
+        amount: number,
+        weapon: DamageSource,
+        hits: HitResult[],
+        kills: KillResult[]
+    ) {
+        if (!victim.isAlive) return;
+        if (this.hasPracticePerk(victim.id, 'invulnerable')) return;
+        if (Date.now() < victim.spawnProtectedUntil) return;
+
+        let damage = amount;
+        if (victim.shield > 0) {
+            const shieldDamage = Math.min(victim.shield, damage);
+            victim.shield -= shieldDamage;
+            damage -= shieldDamage;
+        }
+        victim.health -= damage;
+
+        hits.push({
+            targetId: victim.id,
+            attackerId,
+            damage: amount,
+            newHealth: victim.health,
+        });
+
+        if (victim.health <= 0) {
+            victim.health = 0;
+            victim.isAlive = false;
+            victim.effects = [];
+            victim.spawnProtectedUntil = 0;
+            this.lastDeaths.set(victim.id, { position: { ...victim.position }, time: Date.now() });
+
+            // Practice can skip the wait; the instant respawn itself happens in update()
+            const respawnAt = Date.now() + (this.hasPracticePerk(victim.id, 'instantRespawn') ? 0 : GAME_CONSTANTS.RESPAWN_TIME);
+            this.respawnReadyAt.set(victim.id, respawnAt);
+
+            // Warmup kills don't count towards the match
+            const attacker = this.players.get(attackerId);
+            const scoring = this.match.isScoring();
+            if (scoring) victim.deaths++;
+
+            if (attacker && attacker !== victim && scoring) {
+                attacker.kills++;
+                attacker.score += 100;
+
+                // Team battle is won on kills; CTF only on captures
+                if (this.gameMode === 'team' && attacker.team) {
+                    this.teamScores[attacker.team]++;
+                }
+            }
+
+            if (this.survival && this.bots.has(victim.id) && Math.random() < GAME_CONSTANTS.SURVIVAL_DROP_CHANCE) {
+                this.dropPowerUp(victim.position);
+            }
+
+            kills.push({
+                victimId: victim.id,
+                killerId: attackerId,
+                victimName: victim.name,
+                killerName: attacker?.name || 'Unknown',
+                weapon,
+                position: { ...victim.position },
+                respawnAt,
+            });
+        }
     }
 
     private applyPowerUp(player: PlayerState, type: PowerUpType) {
@@ -628,6 +1338,11 @@ export class GameState {
             case 'shield':
                 player.shield = Math.min(GAME_CONSTANTS.PLAYER_MAX_SHIELD, player.shield + 50);
                 break;
+            case 'speed':
+            case 'rapidfire':
+            case 'damage':
+                player.effects = applyEffect(player.effects, type, Date.now());
+                break;
         }
     }
 
@@ -643,6 +1358,11 @@ export class GameState {
             powerUps: this.powerUps,
             gameMode: this.gameMode,
             teamScores: this.teamScores,
+            match: this.match.getState(),
+            flags: this.ctf ? this.ctf.getFlags() : [],
+            zone: this.zone ? this.zone.getState() : null,
+            survival: this.survival ? this.survival.getState() : null,
+            elimination: this.elimination ? this.elimination.getState() : null,
             serverTime: Date.now(),
         };
     }
@@ -650,6 +1370,11 @@ export class GameState {
     setGameMode(mode: GameMode) {
         this.gameMode = mode;
         this.teamScores = { red: 0, blue: 0 };
+        this.ctf = mode === 'ctf' ? this.createFlags() : null;
+        this.zone = mode === 'koth' ? new ControlZone(this.map.zonePoints, Date.now()) : null;
+        this.survival = mode === 'survival' ? new SurvivalWaves(Date.now()) : null;
+        this.elimination = mode === 'elimination' ? new EliminationRounds(Date.now()) : null;
+        this.match.reset(mode);
     }
 }
 
@@ -666,8 +1391,9 @@ interface KillResult {
     killerId: string;
     victimName: string;
     killerName: string;
-    weapon: ProjectileType;
+    weapon: DamageSource;
     position: Vector3;
+    respawnAt: number;
 }
 
 interface PowerUpCollectResult {
@@ -676,3 +1402,45 @@ interface PowerUpCollectResult {
     type: PowerUpType;
 }
 
+interface MissileLostResult {
+    missileId: string;
+    targetId: string;
+}
+
+interface MissileLockResult extends MissileLockData {
+    targetId: string;
+}
+
+interface DetonationResult {
+    projectileId: string;
+    ownerId: string;
+    type: ProjectileType;
+    position: Vector3;
+    radius: number;
+}
+
+// Take valid values from `changes` and keep `base` for the rest
+function mergePracticeSettings(base: PracticeSettings, changes: Partial<PracticeSettings>): PracticeSettings {
+    const flag = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+    return {
+        botCount: Number.isInteger(changes.botCount)
+            ? Math.min(Math.max(changes.botCount!, 0), GAME_CONSTANTS.PRACTICE_MAX_BOTS)
+            : base.botCount,
+        botBehavior: changes.botBehavior === 'aggressive' || changes.botBehavior === 'passive' ? changes.botBehavior : base.botBehavior,
+        botDifficulty: isBotDifficulty(changes.botDifficulty) ? changes.botDifficulty : base.botDifficulty,
+        infiniteAmmo: flag(changes.infiniteAmmo, base.infiniteAmmo),
+        invulnerable: flag(changes.invulnerable, base.invulnerable),
+        instantRespawn: flag(changes.instantRespawn, base.instantRespawn),
+    };
+}
+
+// Unit-length copy of a client-sent aim direction, or null if it isn't a usable vector
+function normalizeDirection(direction: Vector3 | undefined): Vector3 | null {
+    if (!direction || typeof direction !== 'object') return null;
+    const { x, y, z } = direction;
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) return null;
+
+    const length = Math.sqrt(x * x + y * y + z * z);
+    if (length < 1e-6) return null;
+    return { x: x / length, y: y / length, z: z / length };
+}
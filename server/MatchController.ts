@@ -0,0 +1,156 @@
+/**
+ * Match Controller
+ * Match state machine: warmup -> live -> (overtime) -> postmatch -> next warmup
+ */
+
+import { GameMode, MatchPhase, MatchSettings, MatchState, MATCH_SETTINGS } from '../shared/Protocol.js';
+
+// A side competing for the win: a player id in FFA, a team name in team modes
+export interface MatchContender {
+    id: string;
+    score: number;
+}
+
+// What happened during an update
+export type MatchTransition = 'roundStarted' | 'matchEnded' | 'warmupStarted' | null;
+
+export class MatchController {
+    private settings: MatchSettings;
+    private phase: MatchPhase = 'warmup';
+    private phaseEndsAt: number;
+    private round = 1;
+    private enabled = true;
+
+    constructor(mode: GameMode, overrides: Partial<MatchSettings> = {}) {
+        this.settings = { ...MATCH_SETTINGS[mode], ...overrides };
+        this.phaseEndsAt = Date.now() + this.settings.warmupTime;
+    }
+
+    // Practice sandboxes have no rounds - the match stays live forever
+    disable() {
+        this.enabled = false;
+        this.phase = 'live';
+    }
+
+    // Start over with new settings (mode change)
+    reset(mode: GameMode, overrides: Partial<MatchSettings> = {}) {
+        this.settings = { ...MATCH_SETTINGS[mode], ...overrides };
+        this.round = 1;
+        if (this.enabled) {
+            this.enterPhase('warmup', Date.now());
+        }
+    }
+
+    getPhase(): MatchPhase {
+        return this.phase;
+    }
+
+    getRound(): number {
+        return this.round;
+    }
+
+    // Kills and score only count while the match is being played
+    isScoring(): boolean {
+        return this.phase === 'live' || this.phase === 'overtime';
+    }
+
+    // Nobody can deal damage while results are shown
+    isCombatAllowed(): boolean {
+        return this.phase !== 'postmatch';
+    }
+
+    getState(): MatchState {
+        return {
+            phase: this.phase,
+            phaseEndsAt: this.enabled ? this.phaseEndsAt : 0,
+            round: this.round,
+            timeLimit: this.settings.timeLimit,
+            scoreLimit: this.settings.scoreLimit,
+        };
+    }
+
+    /**
+     * Advance the state machine. `contenders` are the current scores of everyone who can win.
+     */
+    update(now: number, contenders: MatchContender[]): MatchTransition {
+        if (!this.enabled) return null;
+
+        switch (this.phase) {
+            case 'warmup':
+                if (now >= this.phaseEndsAt) {
+                    this.enterPhase('live', now);
+                    return 'roundStarted';
+                }
+                break;
+
+            case 'live': {
+                const { scoreLimit, timeLimit } = this.settings;
+                const leaders = this.getLeaders(contenders);
+                if (scoreLimit > 0 && leaders.length === 1 && leaders[0].score >= scoreLimit) {
+                    this.enterPhase('postmatch', now);
+                    return 'matchEnded';
+                }
+                if (timeLimit > 0 && now >= this.phaseEndsAt) {
+                    // Tied at the buzzer - sudden death
+                    if (leaders.length > 1 && this.settings.overtimeTime > 0) {
+                        this.enterPhase('overtime', now);
+                        return null;
+                    }
+                    this.enterPhase('postmatch', now);
+                    return 'matchEnded';
+                }
+                break;
+            }
+
+            case 'overtime':
+                // First to break the tie wins
+                if (this.getLeaders(contenders).length <= 1 || now >= this.phaseEndsAt) {
+                    this.enterPhase('postmatch', now);
+                    return 'matchEnded';
+                }
+                break;
+
+            case 'postmatch':
+                if (now >= this.phaseEndsAt) {
+                    this.round++;
+                    this.enterPhase('warmup', now);
+                    return 'warmupStarted';
+                }
+                break;
+        }
+
+        return null;
+    }
+
+    // The mode decided the match is over (e.g. survival run lost)
+    end(now: number) {
+        if (!this.enabled || !this.isScoring()) return;
+        this.enterPhase('postmatch', now);
+    }
+
+    // Contenders sharing the top score (empty if nobody is competing)
+    getLeaders(contenders: MatchContender[]): MatchContender[] {
+        if (contenders.length === 0) return [];
+        const best = Math.max(...contenders.map(c => c.score));
+        return contenders.filter(c => c.score === best);
+    }
+
+    private enterPhase(phase: MatchPhase, now: number) {
+        this.phase = phase;
+        switch (phase) {
+            case 'warmup':
+                this.phaseEndsAt = now + this.settings.warmupTime;
+                break;
+            case 'live':
+                // Untimed matches report no end time
+                this.phaseEndsAt = this.settings.timeLimit > 0 ? now + this.settings.timeLimit : 0;
+                break;
+            case 'overtime':
+                this.phaseEndsAt = now + this.settings.overtimeTime;
+                break;
+            case 'postmatch':
+                this.phaseEndsAt = now + this.settings.postMatchTime;
+                break;
+        }
+    }
+}
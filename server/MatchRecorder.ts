@@ -0,0 +1,126 @@
+/**
+ * Match Recorder
+ * Records one room's match for replay: the state when the match goes live, a snapshot
+ * at the network send rate and every event (hits, kills, pickups, chat...) in between.
+ * Frames and events are serialized as they are recorded - the game state is mutated in
+ * place every tick - and the finished replay is assembled from those pieces.
+ */
+
+import {
+    SerializedGameState,
+    ReplayEvent,
+    ReplayInfo,
+    MatchEndData,
+    GameMode,
+    GAME_CONSTANTS,
+} from '../shared/Protocol.js';
+
+// Longest match kept in full (frames past this are dropped)
+const MAX_RECORDING_TIME = 30 * 60 * 1000;
+const MAX_FRAMES = MAX_RECORDING_TIME / 1000 * GAME_CONSTANTS.NETWORK_SEND_RATE;
+
+// Memory one room's recording may hold; frames and events past these are dropped
+const MAX_RECORDING_BYTES = 32 * 1024 * 1024;
+const MAX_EVENTS = 50000;
+
+// Events carry their own payloads; the recorder stamps the time
+type UnstampedEvent<E = ReplayEvent> = E extends ReplayEvent ? Omit<E, 'time'> : never;
+
+// A finished replay: its index entry and the ReplayData JSON
+export interface RecordedReplay {
+    info: ReplayInfo;
+    json: string;
+}
+
+export class MatchRecorder {
+    private roomId: string;
+    private roomName: string;
+    private mapId: string;
+    private frames: string[] = []; // JSON of each SerializedGameState
+    private events: string[] = []; // JSON of each ReplayEvent
+    private bytes = 0;
+    private startedAt = 0;
+    private lastFrameAt = 0;
+    private gameMode: GameMode = 'ffa';
+    private recording = false;
+
+    constructor(roomId: string, roomName: string, mapId: string) {
+        this.roomId = roomId;
+        this.roomName = roomName;
+        this.mapId = mapId;
+    }
+
+    isRecording(): boolean {
+        return this.recording;
+    }
+
+    // The match went live - anything recorded before is thrown away
+    start(state: SerializedGameState) {
+        this.frames = [];
+        this.events = [];
+        this.bytes = 0;
+        this.startedAt = state.serverTime;
+        this.gameMode = state.gameMode;
+        this.recording = true;
+        this.recordFrame(state);
+    }
+
+    recordFrame(state: SerializedGameState) {
+        if (!this.recording || this.frames.length >= MAX_FRAMES || this.bytes >= MAX_RECORDING_BYTES) return;
+
+        const frame = JSON.stringify(state);
+        this.frames.push(frame);
+        this.bytes += frame.length;
+        this.lastFrameAt = state.serverTime;
+    }
+
+    recordEvent(event: UnstampedEvent, time: number = Date.now()) {
+        if (!this.recording || this.events.length >= MAX_EVENTS || this.bytes >= MAX_RECORDING_BYTES) return;
+
+        const json = JSON.stringify({ ...event, time });
+        this.events.push(json);
+        this.bytes += json.length;
+    }
+
+    // The match is over: hand back the finished replay
+    finish(state: SerializedGameState, results: MatchEndData): RecordedReplay | null {
+        if (!this.recording) return null;
+
+        // The final state is always kept, so the replay ends where the match did
+        const frame = JSON.stringify(state);
+        this.frames.push(frame);
+        this.lastFrameAt = state.serverTime;
+        this.recording = false;
+
+        const winner = results.winnerTeam
+            ? `${results.winnerTeam.toUpperCase()} TEAM`
+            : results.standings.find(standing => standing.playerId === results.winnerId)?.name ?? null;
+
+        const info: ReplayInfo = {
+            id: `replay_${this.startedAt}_${this.roomId}`,
+            roomName: this.roomName,
+            gameMode: this.gameMode,
+            mapId: this.mapId,
+            round: results.round,
+            startedAt: this.startedAt,
+            duration: this.lastFrameAt - this.startedAt,
+            winner,
+        };
+
+        // Same shape as ReplayData, built from the already serialized pieces
+        const json = `{"info":${JSON.stringify(info)},"frames":[${this.frames.join(',')}],"events":[${this.events.join(',')}],"results":${JSON.stringify(results)}}`;
+
+        this.frames = [];
+        this.events = [];
+        this.bytes = 0;
+        return { info, json };
+    }
+
+    // Stop without keeping anything (e.g. the room closed mid-match)
+    discard() {
+        this.recording = false;
+        this.frames = [];
+        this.events = [];
+        this.bytes = 0;
+    }
+}
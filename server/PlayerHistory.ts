@@ -0,0 +1,79 @@
+/**
+ * Player History
+ * Short ring buffer of past player poses, used to rewind targets for lag-compensated hit detection
+ */
+
+import { Quaternion, Vector3 } from '../shared/Protocol.js';
+
+export interface PoseSample {
+    time: number;
+    position: Vector3;
+    rotation: Quaternion;
+}
+
+export class PlayerHistory {
+    private samples: PoseSample[];
+    private head = 0;   // Index the next sample is written to
+    private count = 0;
+
+    constructor(capacity: number) {
+        this.samples = new Array(capacity);
+    }
+
+    record(time: number, position: Vector3, rotation: Quaternion) {
+        this.samples[this.head] = { time, position: { ...position }, rotation: { ...rotation } };
+        this.head = (this.head + 1) % this.samples.length;
+        this.count = Math.min(this.count + 1, this.samples.length);
+    }
+
+    clear() {
+        this.count = 0;
+    }
+
+    // Sample i, oldest first
+    private at(i: number): PoseSample {
+        const capacity = this.samples.length;
+        return this.samples[(this.head - this.count + i + capacity) % capacity];
+    }
+
+    /**
+     * Pose at the given time, interpolated between recorded samples.
+     * Clamps to the oldest/newest sample; returns null if nothing is recorded.
+     */
+    getPoseAt(time: number): PoseSample | null {
+        if (this.count === 0) return null;
+
+        const oldest = this.at(0);
+        const newest = this.at(this.count - 1);
+        if (time <= oldest.time) return oldest;
+        if (time >= newest.time) return newest;
+
+        // Walk back from the newest sample - rewinds are short
+        let i = this.count - 2;
+        while (i > 0 && this.at(i).time > time) i--;
+        const from = this.at(i);
+        const to = this.at(i + 1);
+        const alpha = (time - from.time) / (to.time - from.time);
+
+        return {
+            time,
+            position: {
+                x: from.position.x + (to.position.x - from.position.x) * alpha,
+                y: from.position.y + (to.position.y - from.position.y) * alpha,
+                z: from.position.z + (to.position.z - from.position.z) * alpha,
+            },
+            rotation: nlerp(from.rotation, to.rotation, alpha),
+        };
+    }
+}
+
+// Normalized quaternion lerp (close enough to slerp between 60Hz samples)
+function nlerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+    const sign = a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w < 0 ? -1 : 1;
+    const x = a.x + (b.x * sign - a.x) * t;
+    const y = a.y + (b.y * sign - a.y) * t;
+    const z = a.z + (b.z * sign - a.z) * t;
+    const w = a.w + (b.w * sign - a.w) * t;
+    const len = Math.sqrt(x * x + y * y + z * z + w * w) || 1;
+    return { x: x / len, y: y / len, z: z / len, w: w / len };
+}
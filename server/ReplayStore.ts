@@ -0,0 +1,63 @@
+/**
+ * Replay Store
+ * Saves finished match recordings to disk as gzipped JSON and keeps an index of the
+ * newest ones. Older replays are deleted once the limit is reached.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import { ReplayInfo } from '../shared/Protocol.js';
+import { RecordedReplay } from './MatchRecorder.js';
+
+const gzipAsync = promisify(gzip);
+
+const INDEX_FILE = 'index.json';
+
+export class ReplayStore {
+    private dir: string;
+    private maxReplays: number;
+    private index: ReplayInfo[] = []; // Newest first
+
+    constructor(dir: string, maxReplays: number) {
+        this.dir = dir;
+        this.maxReplays = maxReplays;
+    }
+
+    // Pick up replays saved by an earlier run
+    async load() {
+        await fs.mkdir(this.dir, { recursive: true });
+        try {
+            this.index = JSON.parse(await fs.readFile(path.join(this.dir, INDEX_FILE), 'utf8'));
+        } catch {
+            this.index = [];
+        }
+    }
+
+    list(): ReplayInfo[] {
+        return this.index;
+    }
+
+    // File holding a replay, or null for ids we never saved (never builds paths from raw input)
+    getFile(id: string): string | null {
+        const info = this.index.find(replay => replay.id === id);
+        return info ? this.fileFor(info.id) : null;
+    }
+
+    async save(replay: RecordedReplay) {
+        const data = await gzipAsync(replay.json);
+        await fs.writeFile(this.fileFor(replay.info.id), data);
+
+        this.index.unshift(replay.info);
+        const expired = this.index.splice(this.maxReplays);
+        await Promise.all(expired.map(info => fs.rm(this.fileFor(info.id), { force: true })));
+        await fs.writeFile(path.join(this.dir, INDEX_FILE), JSON.stringify(this.index));
+
+        console.log(`🎬 Replay saved: ${replay.info.roomName} round ${replay.info.round} (${(data.length / 1024).toFixed(0)} KB)`);
+    }
+
+    private fileFor(id: string): string {
+        return path.join(this.dir, `${id}.json.gz`);
+    }
+}
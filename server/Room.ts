@@ -0,0 +1,253 @@
+/**
+ * Game Room
+ * One independent match: its own GameState, tick loop and socket.io room
+ */
+
+import { Server } from 'socket.io';
+import { GameState } from './GameState.js';
+import { MatchRecorder } from './MatchRecorder.js';
+import { ReplayStore } from './ReplayStore.js';
+import { SnapshotEncoder, prepareSnapshot } from '../shared/SnapshotCodec.js';
+import { ArenaMap, getArenaMap } from '../shared/ArenaMaps.js';
+import {
+    ClientToServerEvents,
+    ServerToClientEvents,
+    ChatMessage,
+    GameMode,
+    MatchSettings,
+    MatchPhase,
+    RoomInfo,
+    BotDifficulty,
+    GAME_CONSTANTS,
+} from '../shared/Protocol.js';
+
+// Chat history kept per room (last 50 messages)
+const MAX_CHAT_HISTORY = 50;
+
+// Game loop - runs at ~60Hz
+const TICK_INTERVAL = 1000 / GAME_CONSTANTS.TICK_RATE;
+
+// Snapshot send rate, independent of the simulation tick rate
+const SEND_RATE = Number(process.env.SEND_RATE) || GAME_CONSTANTS.NETWORK_SEND_RATE;
+const SEND_INTERVAL = 1 / SEND_RATE;
+
+export interface RoomOptions {
+    name: string;
+    mode: GameMode;
+    mapId?: string; // Default map when missing or unknown
+    isPractice?: boolean;
+    persistent?: boolean; // Persistent rooms survive being empty
+    match?: Partial<MatchSettings>; // Overrides the mode's default time/score limits
+    minPlayers?: number; // Bots fill the match up to this many ships while humans are scarce
+    botDifficulty?: BotDifficulty;
+    ownerId?: string; // Socket that created the room from the lobby
+}
+
+export class Room {
+    readonly id: string;
+    readonly name: string;
+    readonly isPractice: boolean;
+    readonly persistent: boolean;
+    readonly ownerId: string | null;
+    readonly map: ArenaMap;
+    readonly gameState: GameState;
+    readonly chatHistory: ChatMessage[] = [];
+
+    private io: Server<ClientToServerEvents, ServerToClientEvents>;
+    private tickTimer: ReturnType<typeof setInterval> | null = null;
+    private lastTick = Date.now();
+    private sendAccumulator = 0;
+
+    // One delta encoder per connected socket
+    private encoders: Map<string, SnapshotEncoder> = new Map();
+
+    // Sockets watching without a ship (they get snapshots but never join the game state)
+    private spectators: Set<string> = new Set();
+
+    // Match recording, saved to the replay store when each match ends
+    private recorder: MatchRecorder;
+    private replays: ReplayStore | null;
+    private lastPhase: MatchPhase;
+
+    constructor(id: string, io: Server<ClientToServerEvents, ServerToClientEvents>, options: RoomOptions, replays: ReplayStore | null = null) {
+        this.id = id;
+        this.io = io;
+        this.name = options.name;
+        this.isPractice = options.isPractice ?? false;
+        this.persistent = options.persistent ?? false;
+        this.ownerId = options.ownerId ?? null;
+        this.map = getArenaMap(options.mapId);
+        this.gameState = new GameState(options.mode, options.match, this.map);
+        this.gameState.setBotBackfill(options.minPlayers ?? 0, options.botDifficulty);
+
+        // Practice sessions aren't matches worth keeping
+        this.replays = this.isPractice ? null : replays;
+        this.recorder = new MatchRecorder(id, this.name, this.map.id);
+        this.lastPhase = this.gameState.match.getPhase();
+    }
+
+    get playerCount(): number {
+        return this.gameState.getHumanCount();
+    }
+
+    get spectatorCount(): number {
+        return this.spectators.size;
+    }
+
+    // A practice session belongs to the one player who opened it
+    get isFull(): boolean {
+        return this.playerCount >= (this.isPractice ? 1 : GAME_CONSTANTS.MAX_PLAYERS);
+    }
+
+    start() {
+        if (this.tickTimer) return;
+        this.lastTick = Date.now();
+        this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL);
+    }
+
+    stop() {
+        if (this.tickTimer) {
+            clearInterval(this.tickTimer);
+            this.tickTimer = null;
+        }
+        this.recorder.discard();
+    }
+
+    addClient(socketId: string) {
+        this.encoders.set(socketId, new SnapshotEncoder());
+    }
+
+    removeClient(socketId: string) {
+        this.encoders.delete(socketId);
+        this.spectators.delete(socketId);
+    }
+
+    addSpectator(socketId: string) {
+        this.spectators.add(socketId);
+        this.addClient(socketId);
+    }
+
+    acknowledgeSnapshot(socketId: string, snapshotId: number) {
+        this.encoders.get(socketId)?.ack(snapshotId);
+    }
+
+    addChatMessage(message: ChatMessage) {
+        this.chatHistory.push(message);
+        if (this.chatHistory.length > MAX_CHAT_HISTORY) {
+            this.chatHistory.shift();
+        }
+        this.io.to(this.id).emit('chat:message', message);
+        this.recorder.recordEvent({ type: 'chat', data: message });
+    }
+
+    toInfo(): RoomInfo {
+        return {
+            id: this.id,
+            name: this.name,
+            gameMode: this.gameState.gameMode,
+            playerCount: this.playerCount,
+            maxPlayers: GAME_CONSTANTS.MAX_PLAYERS,
+            isPractice: this.isPractice,
+            mapId: this.map.id,
+        };
+    }
+
+    private tick() {
+        const now = Date.now();
+        const deltaTime = (now - this.lastTick) / 1000; // Convert to seconds
+        this.lastTick = now;
+
+        // Update game state
+        const { hits, kills, powerUpsCollected, missilesLost, missilesLocked, detonated, flagEvents, respawned, matchEnded } = this.gameState.update(deltaTime);
+        const channel = this.io.to(this.id);
+        const recorder = this.recorder;
+
+        // Record the match from the moment it goes live
+        const phase = this.gameState.match.getPhase();
+        if (this.replays && phase === 'live' && this.lastPhase === 'warmup') {
+            recorder.start(this.gameState.serialize());
+        }
+        this.lastPhase = phase;
+
+        // Send hit notifications
+        hits.forEach(hit => {
+            channel.emit('player:hit', hit);
+            recorder.recordEvent({ type: 'hit', data: hit }, now);
+        });
+
+        // Send splash detonations (hits are reported above, one per victim)
+        detonated.forEach(detonation => {
+            channel.emit('projectile:detonated', detonation);
+            recorder.recordEvent({ type: 'detonation', data: detonation }, now);
+        });
+
+        // Send kill notifications
+        kills.forEach(kill => {
+            channel.emit('player:killed', kill);
+            recorder.recordEvent({ type: 'kill', data: kill }, now);
+        });
+
+        // Send power-up collection notifications
+        powerUpsCollected.forEach(collected => {
+            channel.emit('powerup:collected', collected);
+            recorder.recordEvent({ type: 'pickup', data: collected }, now);
+        });
+
+        // Warn targets of incoming homing missiles, whoever fired them
+        missilesLocked.forEach(({ targetId, ...lock }) => {
+            this.io.to(targetId).emit('missile:locked', lock);
+        });
+
+        // Tell victims when a missile stops tracking them
+        missilesLost.forEach(({ missileId, targetId }) => {
+            this.io.to(targetId).emit('missile:lost', missileId);
+        });
+
+        // Capture the flag
+        flagEvents.forEach(event => {
+            if (event.type === 'capture') {
+                console.log(`🚩 ${event.playerName} captured the ${event.team} flag in ${this.name}`);
+            }
+            channel.emit('flag:event', event);
+            recorder.recordEvent({ type: 'flag', data: event }, now);
+        });
+
+        // Match lifecycle: everyone respawns when a round goes live
+        respawned.forEach(player => {
+            channel.emit('player:respawned', player);
+            recorder.recordEvent({ type: 'respawn', data: player }, now);
+        });
+
+        if (matchEnded) {
+            const winner = matchEnded.winnerTeam ?? matchEnded.standings.find(s => s.playerId === matchEnded.winnerId)?.name ?? 'draw';
+            console.log(`🏁 Match ended in ${this.name} (round ${matchEnded.round}): ${winner}`);
+            channel.emit('match:ended', matchEnded);
+
+            const replay = recorder.finish(this.gameState.serialize(), matchEnded);
+            if (replay) {
+                this.replays?.save(replay).catch(error => console.error(`❌ Failed to save replay for ${this.name}:`, error));
+            }
+        }
+
+        // Send delta snapshots at the network rate
+        this.sendAccumulator += deltaTime;
+        if (this.sendAccumulator >= SEND_INTERVAL) {
+            this.sendAccumulator %= SEND_INTERVAL;
+            this.broadcastSnapshot();
+        }
+    }
+
+    private broadcastSnapshot() {
+        if (this.encoders.size === 0 && !this.recorder.isRecording()) return;
+
+        const state = this.gameState.serialize();
+        this.recorder.recordFrame(state);
+        if (this.encoders.size === 0) return;
+
+        // Records are built once; each encoder only diffs them against its client's baseline
+        const snapshot = prepareSnapshot(state);
+        this.encoders.forEach((encoder, socketId) => {
+            this.io.to(socketId).emit('game:snapshot', encoder.encode(snapshot));
+        });
+    }
+}
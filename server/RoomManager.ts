@@ -0,0 +1,108 @@
+/**
+ * Room Manager
+ * Creates, lists and destroys independent game rooms
+ */
+
+import { Server } from 'socket.io';
+import { Room, RoomOptions } from './Room.js';
+import { ReplayStore } from './ReplayStore.js';
+import {
+    ClientToServerEvents,
+    ServerToClientEvents,
+    GameMode,
+    RoomInfo,
+} from '../shared/Protocol.js';
+
+// Rooms nobody joins are cleaned up after this long
+const EMPTY_ROOM_TIMEOUT = 60000;
+
+export class RoomManager {
+    private io: Server<ClientToServerEvents, ServerToClientEvents>;
+    private rooms: Map<string, Room> = new Map();
+    private roomIdCounter = 0;
+    private replays: ReplayStore | null;
+
+    // Every room runs its own tick loop, so the total is capped (persistent arenas always open)
+    private maxRooms: number;
+
+    constructor(io: Server<ClientToServerEvents, ServerToClientEvents>, replays: ReplayStore | null = null, maxRooms: number = Infinity) {
+        this.io = io;
+        this.replays = replays;
+        this.maxRooms = maxRooms;
+    }
+
+    // Returns null when the server is already running its room limit
+    createRoom(options: RoomOptions): Room | null {
+        if (!options.persistent && this.isFull) {
+            console.log(`🚫 Room limit reached, not creating ${options.name}`);
+            return null;
+        }
+
+        const id = `room_${this.roomIdCounter++}`;
+        const room = new Room(id, this.io, options, this.replays);
+        this.rooms.set(id, room);
+        room.start();
+
+        if (!room.persistent) {
+            setTimeout(() => this.releaseIfEmpty(room), EMPTY_ROOM_TIMEOUT);
+        }
+
+        console.log(`🏠 Room created: ${room.name} (${id}) ${options.mode.toUpperCase()} on ${room.map.name}${room.isPractice ? ' (Practice)' : ''}`);
+        return room;
+    }
+
+    getRoom(id: string): Room | undefined {
+        return this.rooms.get(id);
+    }
+
+    get isFull(): boolean {
+        return this.rooms.size >= this.maxRooms;
+    }
+
+    // Find an open public room for the mode, creating one if none has space (null if the server is full)
+    findOrCreateRoom(mode: GameMode): Room | null {
+        for (const room of this.rooms.values()) {
+            if (!room.isPractice && room.gameState.gameMode === mode && !room.isFull) {
+                return room;
+            }
+        }
+        return this.createRoom({ name: `${mode.toUpperCase()} Arena`, mode });
+    }
+
+    // Tear down a room once its last human (and spectator) has left
+    releaseIfEmpty(room: Room) {
+        if (room.persistent || room.playerCount > 0 || room.spectatorCount > 0) return;
+        this.destroyRoom(room.id);
+    }
+
+    destroyRoom(id: string) {
+        const room = this.rooms.get(id);
+        if (!room) return;
+
+        room.stop();
+        this.rooms.delete(id);
+        console.log(`🗑️ Room destroyed: ${room.name} (${id})`);
+    }
+
+    // Public rooms shown in the lobby
+    listRooms(): RoomInfo[] {
+        return [...this.rooms.values()]
+            .filter(room => !room.isPractice)
+            .map(room => room.toInfo());
+    }
+
+    // Rooms a socket created from the lobby that are still open
+    countRoomsOwnedBy(socketId: string): number {
+        return [...this.rooms.values()].filter(room => room.ownerId === socketId).length;
+    }
+
+    getAllRooms(): Room[] {
+        return [...this.rooms.values()];
+    }
+
+    destroyAll() {
+        for (const id of [...this.rooms.keys()]) {
+            this.destroyRoom(id);
+        }
+    }
+}
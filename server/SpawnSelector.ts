@@ -0,0 +1,101 @@
+/**
+ * Spawn Selector
+ * Rates a map's candidate spawn points for one player and picks a safe one: far from
+ * enemies, out of their sight, clear of projectiles heading that way, and away from
+ * where the player was just killed.
+ */
+
+import { PlayerState, ProjectileState, Vector3 } from '../shared/Protocol.js';
+import { getForwardVector } from '../shared/FlightModel.js';
+
+// Nearest enemy this far away (or further) counts as fully safe
+const SAFE_ENEMY_DISTANCE = 200;
+const DISTANCE_WEIGHT = 100;
+
+// An enemy pointing at a spawn within this range and cone (cos) can see it
+const SIGHT_RANGE = 300;
+const SIGHT_CONE = 0.7;
+const SIGHT_PENALTY = 40;
+
+// Projectiles passing this close within the horizon make a spawn dangerous
+const PROJECTILE_DANGER_RADIUS = 40;
+const PROJECTILE_HORIZON = 2; // Seconds
+const PROJECTILE_PENALTY = 60;
+
+// Keep away from the spot the player just died at, for a while after dying
+export const RECENT_DEATH_TIME = 15000;
+const DEATH_AVOID_RADIUS = 120;
+const DEATH_PENALTY = 50;
+
+// Candidates scoring this close to the best are picked at random, so spawns aren't predictable
+const SCORE_TIE_MARGIN = 10;
+
+// What the spawning player has to be kept safe from
+export interface SpawnContext {
+    enemies: PlayerState[];         // Live hostile ships
+    projectiles: ProjectileState[]; // Hostile projectiles in flight
+    recentDeath: Vector3 | null;    // Where the player was recently killed
+}
+
+export function scoreSpawnPoint(point: Vector3, context: SpawnContext): number {
+    let score = 0;
+
+    // Distance to the nearest enemy
+    let nearest = SAFE_ENEMY_DISTANCE;
+    for (const enemy of context.enemies) {
+        const toPoint = sub(point, enemy.position);
+        const dist = length(toPoint);
+        nearest = Math.min(nearest, dist);
+
+        // Enemy line of sight
+        if (dist < SIGHT_RANGE && (dist === 0 || dot(getForwardVector(enemy.rotation), toPoint) / dist >= SIGHT_CONE)) {
+            score -= SIGHT_PENALTY;
+        }
+    }
+    score += nearest / SAFE_ENEMY_DISTANCE * DISTANCE_WEIGHT;
+
+    // Projectiles that will pass close by
+    for (const proj of context.projectiles) {
+        const speedSq = dot(proj.velocity, proj.velocity);
+        const toPoint = sub(point, proj.position);
+        const t = speedSq > 0 ? Math.max(0, Math.min(PROJECTILE_HORIZON, dot(toPoint, proj.velocity) / speedSq)) : 0;
+        const closest = {
+            x: proj.position.x + proj.velocity.x * t,
+            y: proj.position.y + proj.velocity.y * t,
+            z: proj.position.z + proj.velocity.z * t,
+        };
+        if (length(sub(point, closest)) < PROJECTILE_DANGER_RADIUS) {
+            score -= PROJECTILE_PENALTY;
+        }
+    }
+
+    // The player's own recent death location
+    if (context.recentDeath) {
+        const dist = length(sub(point, context.recentDeath));
+        if (dist < DEATH_AVOID_RADIUS) {
+            score -= DEATH_PENALTY * (1 - dist / DEATH_AVOID_RADIUS);
+        }
+    }
+
+    return score;
+}
+
+// Pick one of the safest candidates
+export function chooseSpawnPoint(candidates: Vector3[], context: SpawnContext): Vector3 {
+    const scored = candidates.map(point => ({ point, score: scoreSpawnPoint(point, context) }));
+    const best = Math.max(...scored.map(entry => entry.score));
+    const safest = scored.filter(entry => entry.score >= best - SCORE_TIE_MARGIN);
+    return { ...safest[Math.floor(Math.random() * safest.length)].point };
+}
+
+function sub(a: Vector3, b: Vector3): Vector3 {
+    return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function dot(a: Vector3, b: Vector3): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function length(v: Vector3): number {
+    return Math.sqrt(dot(v, v));
+}
@@ -0,0 +1,93 @@
+/**
+ * Survival Waves
+ * Co-op survival director: rest period, then a wave of bots, repeating with harder waves
+ * until every human is down at the same time.
+ */
+
+import { ProjectileType, SurvivalState, GAME_CONSTANTS } from '../shared/Protocol.js';
+
+// Bots in a wave and how well they fight
+export interface WaveConfig {
+    botCount: number;
+    aimError: number;      // Max aim offset in radians
+    fireCooldown: number;  // ms between shots
+    weapons: ProjectileType[];
+}
+
+export function getWaveConfig(wave: number): WaveConfig {
+    const weapons: ProjectileType[] = ['laser'];
+    if (wave >= 3) weapons.push('plasma');
+    if (wave >= 5) weapons.push('missile');
+
+    return {
+        botCount: Math.min(2 + wave * 2, GAME_CONSTANTS.MAX_PLAYERS),
+        aimError: Math.max(0.02, 0.3 - wave * 0.04),
+        fireCooldown: Math.max(250, 1000 - wave * 75),
+        weapons,
+    };
+}
+
+// What happened during an update
+export type WaveTransition = 'waveStarted' | 'waveCleared' | 'runOver' | null;
+
+export class SurvivalWaves {
+    private state: SurvivalState;
+
+    constructor(now: number) {
+        this.state = this.createState(now);
+    }
+
+    private createState(now: number): SurvivalState {
+        return {
+            wave: 0,
+            phase: 'rest',
+            nextWaveAt: now + GAME_CONSTANTS.SURVIVAL_REST_TIME,
+            botsRemaining: 0,
+        };
+    }
+
+    // New run: a rest period before wave 1
+    reset(now: number) {
+        this.state = this.createState(now);
+    }
+
+    getState(): SurvivalState {
+        return this.state;
+    }
+
+    getWave(): number {
+        return this.state.wave;
+    }
+
+    /**
+     * Advance the run. `botsAlive` are the current wave's bots still flying; `humans`/`humansAlive`
+     * count the players defending.
+     */
+    update(now: number, botsAlive: number, humans: number, humansAlive: number): WaveTransition {
+        const state = this.state;
+        state.botsRemaining = botsAlive;
+
+        if (state.phase === 'rest') {
+            if (now >= state.nextWaveAt) {
+                state.wave++;
+                state.phase = 'wave';
+                state.nextWaveAt = 0;
+                return 'waveStarted';
+            }
+            return null;
+        }
+
+        // Everyone down at once ends the run (an empty room just waits)
+        if (humans > 0 && humansAlive === 0) {
+            return 'runOver';
+        }
+
+        if (botsAlive === 0) {
+            state.phase = 'rest';
+            state.nextWaveAt = now + GAME_CONSTANTS.SURVIVAL_REST_TIME;
+            return 'waveCleared';
+        }
+
+        return null;
+    }
+}
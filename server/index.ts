@@ -1,24 +1,61 @@
 /**
  * Multiplayer Game Server
- * Socket.io based real-time game server with 60Hz tick rate
+ * Socket.io based real-time game server hosting independent rooms at 60Hz
  */
 
 import express from 'express';
+import { createReadStream } from 'fs';
 import { createServer } from 'http';
 import { Server, Socket } from 'socket.io';
-import { GameState } from './GameState.js';
+import { RoomManager } from './RoomManager.js';
+import { Room } from './Room.js';
+import { ReplayStore } from './ReplayStore.js';
 import {
     ClientToServerEvents,
     ServerToClientEvents,
     PlayerInput,
     ShootInput,
     ChatMessage,
+    CreateRoomData,
     GAME_CONSTANTS,
     GameMode,
+    isBotDifficulty,
+    isProjectileType,
 } from '../shared/Protocol.js';
 
 const PORT = process.env.PORT || 3001;
 
+// Sockets browsing the room list join this socket.io room
+const LOBBY_CHANNEL = 'lobby';
+
+// How often each client's round-trip time is measured (ms)
+const LATENCY_PING_INTERVAL = 2000;
+
+// A ping not acked within this long is counted as this much round-trip time (ms)
+const LATENCY_PING_TIMEOUT = 1000;
+
+// Every room runs its own tick loop, so rooms are capped in total and per lobby socket
+const MAX_ROOMS = Number(process.env.MAX_ROOMS) || 32;
+const MAX_ROOMS_PER_SOCKET = 2;
+
+// Longest player name kept
+const MAX_NAME_LENGTH = 20;
+
+const SERVER_FULL_MESSAGE = 'The server is full right now. Try again in a moment.';
+
+// Clients send one input per rendered frame; more than this is flooding
+const MAX_INPUTS_PER_SECOND = 250;
+
+// Bots keep the persistent arenas at this many ships while few humans are on (0 disables)
+const BOT_BACKFILL = Number(process.env.BOT_BACKFILL ?? 4);
+
+// Finished matches are saved here for replay; only the newest are kept
+const REPLAY_DIR = process.env.REPLAY_DIR || 'replays';
+const MAX_REPLAYS = Number(process.env.MAX_REPLAYS) || 50;
+
+// Dev client origins allowed to reach the socket and the REST API
+const CLIENT_ORIGINS = ['http://localhost:5173', 'http://localhost:3000', 'http://127.0.0.1:5173'];
+
 // Create Express app and HTTP server
 const app = express();
 const httpServer = createServer(app);
@@ -26,165 +63,370 @@ const httpServer = createServer(app);
 // Create Socket.io server with CORS for development
 const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
     cors: {
-        origin: ['http://localhost:5173', 'http://localhost:3000', 'http://127.0.0.1:5173'],
+        origin: CLIENT_ORIGINS,
         methods: ['GET', 'POST'],
     },
 });
 
-// Initialize game state
-let gameState = new GameState('ffa');
+// Let the dev client read the REST API (replays are fetched from the browser)
+app.use('/api', (req, res, next) => {
+    const origin = req.headers.origin;
+    if (origin && CLIENT_ORIGINS.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+    }
+    next();
+});
 
-// Track socket -> player mapping
-const socketToPlayer = new Map<string, string>();
+const replayStore = new ReplayStore(REPLAY_DIR, MAX_REPLAYS);
+replayStore.load().catch(error => console.error('❌ Failed to load replays:', error));
 
-// Chat history (last 50 messages)
-const chatHistory: ChatMessage[] = [];
-const MAX_CHAT_HISTORY = 50;
+// Initialize rooms - one persistent arena per public mode
+const roomManager = new RoomManager(io, replayStore, MAX_ROOMS);
+roomManager.createRoom({ name: 'Main Arena', mode: 'ffa', mapId: 'solar', persistent: true, minPlayers: BOT_BACKFILL });
+roomManager.createRoom({ name: 'Team Arena', mode: 'team', mapId: 'earth', persistent: true, minPlayers: BOT_BACKFILL });
+roomManager.createRoom({ name: 'Flag Arena', mode: 'ctf', mapId: 'mars', persistent: true, minPlayers: BOT_BACKFILL });
+roomManager.createRoom({ name: 'Hill Arena', mode: 'koth', mapId: 'jupiter', persistent: true, minPlayers: BOT_BACKFILL });
+roomManager.createRoom({ name: 'Survival Arena', mode: 'survival', mapId: 'mars', persistent: true });
+roomManager.createRoom({ name: 'Elimination Arena', mode: 'elimination', mapId: 'earth', persistent: true, minPlayers: BOT_BACKFILL });
+
+// Track socket -> room mapping
+const socketToRoom = new Map<string, Room>();
+
+// Spectators are tracked apart from players so game handlers never see them
+const spectatorToRoom = new Map<string, Room>();
+
+function isGameMode(mode: unknown): mode is GameMode {
+    return mode === 'ffa' || mode === 'team' || mode === 'ctf' || mode === 'koth' || mode === 'survival' || mode === 'elimination';
+}
+
+// Trimmed and length-capped, or the fallback if not a usable string
+function cleanName(name: unknown, maxLength: number, fallback: string): string {
+    return (typeof name === 'string' ? name : '').trim().slice(0, maxLength) || fallback;
+}
+
+// Allows `limit` calls per one-second window
+function createRateLimiter(limit: number): () => boolean {
+    let windowStart = 0;
+    let count = 0;
+    return () => {
+        const now = Date.now();
+        if (now - windowStart >= 1000) {
+            windowStart = now;
+            count = 0;
+        }
+        return ++count <= limit;
+    };
+}
+
+function broadcastRoomList() {
+    io.to(LOBBY_CHANNEL).emit('room:list', roomManager.listRooms());
+}
 
 // Connection handler
 io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>) => {
     console.log(`🔌 Client connected: ${socket.id}`);
+    socket.join(LOBBY_CHANNEL);
+
+    // Measure round-trip time for lag compensation
+    const measureLatency = () => {
+        const sentAt = Date.now();
+        socket.timeout(LATENCY_PING_TIMEOUT).emit('latency:ping', (error: Error | null) => {
+            const rtt = error ? LATENCY_PING_TIMEOUT : Date.now() - sentAt;
+            socketToRoom.get(socket.id)?.gameState.setLatency(socket.id, rtt);
+        });
+    };
+    const pingTimer = setInterval(measureLatency, LATENCY_PING_INTERVAL);
+    const allowInput = createRateLimiter(MAX_INPUTS_PER_SECOND);
+
+    // Handle room listing
+    socket.on('room:list', () => {
+        socket.emit('room:list', roomManager.listRooms());
+    });
+
+    // Handle room creation
+    socket.on('room:create', (data: CreateRoomData) => {
+        if (!data || typeof data !== 'object' || !isGameMode(data.mode)) return;
+
+        if (roomManager.countRoomsOwnedBy(socket.id) >= MAX_ROOMS_PER_SOCKET) {
+            console.log(`🚫 Room limit reached, not creating a room for ${socket.id}`);
+            socket.emit('room:error', 'You already have the most open rooms allowed.');
+            return;
+        }
+
+        const name = cleanName(data.name, 32, `${data.mode.toUpperCase()} Match`);
+        const mapId = typeof data.mapId === 'string' ? data.mapId : undefined;
+        const room = roomManager.createRoom({ name, mode: data.mode, mapId, ownerId: socket.id });
+        if (!room) {
+            socket.emit('room:error', SERVER_FULL_MESSAGE);
+            return;
+        }
+
+        socket.emit('room:created', room.toInfo());
+        broadcastRoomList();
+    });
 
     // Handle player joining
     socket.on('player:join', (data) => {
-        const { name, team, mode, botBehavior } = data as { name: string; team?: 'red' | 'blue'; mode?: string; botBehavior?: string };
+        if (!data || typeof data !== 'object') return;
+        const { roomId, mode, mapId, botBehavior, botDifficulty, botCount } = data;
+        const name = cleanName(data.name, MAX_NAME_LENGTH, 'Pilot');
+        const team = data.team === 'red' || data.team === 'blue' ? data.team : undefined;
         const playerId = socket.id;
 
+        // Already in a room - ignore duplicate joins
+        if (socketToRoom.has(socket.id) || spectatorToRoom.has(socket.id)) return;
+
+        let room: Room | null | undefined;
+        if (mode === 'practice') {
+            // Practice gets its own room so bots never leak into live matches
+            room = roomManager.createRoom({
+                name: `${name}'s Practice`,
+                mode: 'ffa',
+                mapId: typeof mapId === 'string' ? mapId : undefined,
+                isPractice: true,
+            });
+            if (!room) {
+                socket.emit('room:error', SERVER_FULL_MESSAGE);
+                return;
+            }
+            const settings = room.gameState.enablePracticeMode({
+                botCount,
+                botBehavior: botBehavior === 'passive' ? 'passive' : 'aggressive',
+                botDifficulty: isBotDifficulty(botDifficulty) ? botDifficulty : undefined,
+            });
+            console.log(`🤖 Enabling practice mode with ${settings.botCount} ${settings.botBehavior === 'passive' ? 'STATIONARY' : settings.botDifficulty.toUpperCase()} bots`);
+        } else {
+            // Practice sessions are private - never join one by id
+            room = typeof roomId === 'string' ? roomManager.getRoom(roomId) : undefined;
+            if (!room || room.isFull || room.isPractice) {
+                room = roomManager.findOrCreateRoom(isGameMode(mode) ? mode : 'ffa');
+            }
+            if (!room) {
+                socket.emit('room:error', SERVER_FULL_MESSAGE);
+                return;
+            }
+        }
+
         // Add player to game
+        const gameState = room.gameState;
         const player = gameState.addPlayer(playerId, name, team);
-        socketToPlayer.set(socket.id, playerId);
-
-        // Enable practice mode with bots if requested
-        if (mode === 'practice' && !gameState.isPracticeMode) {
-            const isPassive = botBehavior === 'passive';
-            console.log(`🤖 Enabling practice mode with ${isPassive ? 'STATIONARY' : 'AGGRESSIVE'} bots`);
-            gameState.enablePracticeMode(3, isPassive); // Spawn 3 bots
-        }
+        socketToRoom.set(socket.id, room);
+        socket.leave(LOBBY_CHANNEL);
+        socket.join(room.id);
+        room.addClient(socket.id);
+        measureLatency();
 
-        console.log(`👤 Player joined: ${name} (${playerId}) ${team ? `Team: ${team}` : 'FFA'} ${mode === 'practice' ? '(Practice)' : ''}`);
+        console.log(`👤 Player joined: ${name} (${playerId}) -> ${room.name} ${team ? `Team: ${team}` : 'FFA'} ${mode === 'practice' ? '(Practice)' : ''}`);
 
         // Send initialization data to the new player
         socket.emit('game:init', {
             playerId,
+            roomId: room.id,
+            mapId: room.map.id,
             gameState: gameState.serialize(),
             spawnPosition: player.position,
         });
 
-        // Notify other players
-        socket.broadcast.emit('player:joined', player);
+        // Replay recent chat for this room
+        room.chatHistory.forEach(message => socket.emit('chat:message', message));
+
+        const practiceSettings = gameState.getPracticeSettings();
+        if (practiceSettings) {
+            socket.emit('practice:settings', practiceSettings);
+        }
+
+        // Notify other players in the room
+        socket.broadcast.to(room.id).emit('player:joined', player);
+        broadcastRoomList();
+    });
+
+    // Handle spectators: they get snapshots and room events but never enter the game
+    socket.on('player:spectate', (data) => {
+        if (socketToRoom.has(socket.id) || spectatorToRoom.has(socket.id)) return;
+
+        const { roomId, mode } = data ?? {};
+        let room = typeof roomId === 'string' ? roomManager.getRoom(roomId) : undefined;
+        if (!room || room.isPractice) {
+            room = roomManager.findOrCreateRoom(isGameMode(mode) ? mode : 'ffa') ?? undefined;
+        }
+        if (!room) {
+            socket.emit('room:error', SERVER_FULL_MESSAGE);
+            return;
+        }
+
+        spectatorToRoom.set(socket.id, room);
+        socket.leave(LOBBY_CHANNEL);
+        socket.join(room.id);
+        room.addSpectator(socket.id);
+
+        console.log(`👁️ Spectator joined: ${socket.id} -> ${room.name}`);
+
+        socket.emit('game:spectate', {
+            roomId: room.id,
+            mapId: room.map.id,
+            gameState: room.gameState.serialize(),
+        });
+        room.chatHistory.forEach(message => socket.emit('chat:message', message));
+        broadcastRoomList();
     });
 
     // Handle player input
     socket.on('player:input', (input: PlayerInput) => {
-        const playerId = socketToPlayer.get(socket.id);
-        if (playerId) {
-            gameState.updatePlayerInput(playerId, input);
+        const room = socketToRoom.get(socket.id);
+        if (room && allowInput()) {
+            room.gameState.updatePlayerInput(socket.id, input);
+        }
+    });
+
+    // Handle snapshot acknowledgements (delta baselines)
+    socket.on('snapshot:ack', (snapshotId: number) => {
+        const room = socketToRoom.get(socket.id) ?? spectatorToRoom.get(socket.id);
+        if (room && Number.isInteger(snapshotId)) {
+            room.acknowledgeSnapshot(socket.id, snapshotId);
         }
     });
 
     // Handle shooting
     socket.on('player:shoot', (shootInput: ShootInput) => {
-        const playerId = socketToPlayer.get(socket.id);
-        if (playerId) {
-            gameState.playerShoot(playerId, shootInput);
+        const room = socketToRoom.get(socket.id);
+        if (!room || !shootInput || typeof shootInput !== 'object' || !isProjectileType(shootInput.type)) return;
+
+        // Locked missiles are announced to their target from the room tick
+        if (!room.gameState.playerShoot(socket.id, shootInput)) {
+            // Let the client remove its predicted projectile and resync its cooldown
+            socket.emit('player:shoot:rejected', {
+                shotId: Number.isInteger(shootInput.shotId) ? shootInput.shotId : undefined,
+                type: shootInput.type,
+                retryIn: room.gameState.getWeaponReadyIn(socket.id, shootInput.type),
+            });
         }
     });
 
+    // Handle flares (break missile locks)
+    socket.on('player:flare', () => {
+        const room = socketToRoom.get(socket.id);
+        if (!room) return;
+
+        const freed = room.gameState.deployFlare(socket.id);
+        if (!freed) return;
+
+        io.to(room.id).emit('player:flare', socket.id);
+        freed.forEach(missileId => socket.emit('missile:lost', missileId));
+    });
+
     // Handle respawn request
     socket.on('player:respawn', () => {
-        const playerId = socketToPlayer.get(socket.id);
-        if (playerId) {
-            const player = gameState.respawnPlayer(playerId);
+        const room = socketToRoom.get(socket.id);
+        if (room) {
+            const player = room.gameState.requestRespawn(socket.id);
             if (player) {
-                io.emit('player:respawned', player);
+                io.to(room.id).emit('player:respawned', player);
             }
         }
     });
 
+    // Handle practice menu changes
+    socket.on('practice:settings', (changes) => {
+        const room = socketToRoom.get(socket.id);
+        if (!room?.isPractice || !changes || typeof changes !== 'object') return;
+
+        const settings = room.gameState.updatePracticeSettings(changes);
+        if (settings) {
+            socket.emit('practice:settings', settings);
+        }
+    });
+
     // Handle chat messages
     socket.on('chat:message', (message: string) => {
-        const playerId = socketToPlayer.get(socket.id);
-        if (!playerId) return;
+        const room = socketToRoom.get(socket.id);
+        if (!room) return;
 
-        const player = gameState.players.get(playerId);
+        const player = room.gameState.players.get(socket.id);
         if (!player) return;
 
         const chatMessage: ChatMessage = {
-            playerId,
+            playerId: player.id,
             playerName: player.name,
             message: message.slice(0, 200), // Limit message length
             timestamp: Date.now(),
             team: player.team || undefined,
         };
 
-        chatHistory.push(chatMessage);
-        if (chatHistory.length > MAX_CHAT_HISTORY) {
-            chatHistory.shift();
-        }
-
-        io.emit('chat:message', chatMessage);
+        room.addChatMessage(chatMessage);
     });
 
     // Handle disconnection
     socket.on('disconnect', () => {
-        const playerId = socketToPlayer.get(socket.id);
-        if (playerId) {
-            console.log(`👋 Player left: ${playerId}`);
-            gameState.removePlayer(playerId);
-            socketToPlayer.delete(socket.id);
-            io.emit('player:left', playerId);
+        clearInterval(pingTimer);
+
+        const watched = spectatorToRoom.get(socket.id);
+        if (watched) {
+            console.log(`👁️ Spectator left: ${socket.id} (${watched.name})`);
+            watched.removeClient(socket.id);
+            spectatorToRoom.delete(socket.id);
+            roomManager.releaseIfEmpty(watched);
+            broadcastRoomList();
         }
-    });
-});
 
-// Game loop - runs at ~60Hz
-const TICK_INTERVAL = 1000 / GAME_CONSTANTS.TICK_RATE;
-let lastTick = Date.now();
-
-function gameLoop() {
-    const now = Date.now();
-    const deltaTime = (now - lastTick) / 1000; // Convert to seconds
-    lastTick = now;
-
-    // Update game state
-    const { hits, kills, powerUpsCollected } = gameState.update(deltaTime);
-
-    // Send hit notifications
-    hits.forEach(hit => {
-        io.emit('player:hit', hit);
-    });
-
-    // Send kill notifications
-    kills.forEach(kill => {
-        io.emit('player:killed', kill);
-    });
-
-    // Send power-up collection notifications
-    powerUpsCollected.forEach(collected => {
-        io.emit('powerup:collected', collected);
+        const room = socketToRoom.get(socket.id);
+        if (room) {
+            console.log(`👋 Player left: ${socket.id} (${room.name})`);
+            room.gameState.removePlayer(socket.id);
+            room.removeClient(socket.id);
+            socketToRoom.delete(socket.id);
+            io.to(room.id).emit('player:left', socket.id);
+            roomManager.releaseIfEmpty(room);
+            broadcastRoomList();
+        }
     });
-
-    // Broadcast game state to all clients
-    io.emit('game:state', gameState.serialize());
-}
-
-setInterval(gameLoop, TICK_INTERVAL);
+});
 
 // API endpoints
 app.get('/api/status', (req, res) => {
+    const rooms = roomManager.getAllRooms();
     res.json({
         status: 'online',
-        players: gameState.players.size,
-        gameMode: gameState.gameMode,
+        players: rooms.reduce((total, room) => total + room.playerCount, 0),
+        rooms: rooms.map(room => room.toInfo()),
         uptime: process.uptime(),
     });
 });
 
-app.post('/api/mode/:mode', (req, res) => {
-    const mode = req.params.mode as GameMode;
-    if (mode === 'ffa' || mode === 'team') {
-        gameState.setGameMode(mode);
-        res.json({ success: true, mode });
+app.get('/api/rooms', (req, res) => {
+    res.json(roomManager.listRooms());
+});
+
+app.get('/api/replays', (req, res) => {
+    res.json(replayStore.list());
+});
+
+// Replays are stored gzipped and sent as-is; the browser inflates them
+app.get('/api/replays/:replayId', (req, res) => {
+    const file = replayStore.getFile(req.params.replayId);
+    if (!file) {
+        res.status(404).json({ error: 'Unknown replay' });
+        return;
+    }
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Encoding', 'gzip');
+    createReadStream(file)
+        .on('error', () => res.status(404).end())
+        .pipe(res);
+});
+
+app.post('/api/rooms/:roomId/mode/:mode', (req, res) => {
+    const room = roomManager.getRoom(req.params.roomId);
+    if (!room) {
+        res.status(404).json({ error: 'Unknown room' });
+        return;
+    }
+
+    const mode = req.params.mode;
+    if (isGameMode(mode)) {
+        room.gameState.setGameMode(mode);
+        res.json({ success: true, roomId: room.id, mode });
+        broadcastRoomList();
     } else {
         res.status(400).json({ error: 'Invalid game mode' });
     }
@@ -197,8 +439,9 @@ httpServer.listen(PORT, () => {
 ║     🚀 NEON VOID - Multiplayer Space Shooter 🚀      ║
 ╠═══════════════════════════════════════════════════════╣
 ║  Server running on port ${PORT}                          ║
-║  Game Mode: ${gameState.gameMode.toUpperCase().padEnd(42)}║
+║  Rooms: ${String(roomManager.getAllRooms().length).padEnd(46)}║
 ║  Tick Rate: ${GAME_CONSTANTS.TICK_RATE} Hz${' '.repeat(38)}║
+║  Send Rate: ${String(Number(process.env.SEND_RATE) || GAME_CONSTANTS.NETWORK_SEND_RATE).padEnd(2)} Hz${' '.repeat(38)}║
 ╚═══════════════════════════════════════════════════════╝
   `);
 });
@@ -206,6 +449,7 @@ httpServer.listen(PORT, () => {
 // Handle graceful shutdown
 process.on('SIGINT', () => {
     console.log('\n🛑 Shutting down server...');
+    roomManager.destroyAll();
     io.close();
     process.exit();
 });
@@ -0,0 +1,49 @@
+/**
+ * Shared Arena Bounds
+ * The combat zone is the map's play area cube. Ships may stray past its edge (the soft
+ * edge) for a short while before taking damage, and are pushed back in once they go
+ * BOUNDARY_MARGIN further (the hard edge). Used by the server simulation and client-side
+ * prediction so both agree on where a ship ends up.
+ */
+
+import { Vector3, GAME_CONSTANTS } from './Protocol.js';
+
+// How far past the combat zone's edge a point is, on its furthest axis (<= 0 inside)
+export function getBoundaryExcess(position: Vector3, size: number): number {
+    const half = size / 2;
+    return Math.max(Math.abs(position.x), Math.abs(position.y), Math.abs(position.z)) - half;
+}
+
+export function isOutsideCombatZone(position: Vector3, size: number): boolean {
+    return getBoundaryExcess(position, size) > 0;
+}
+
+// Half the edge length of the cube nothing may leave (ships are pushed back, shots expire)
+export function getHardEdge(size: number): number {
+    return size / 2 + GAME_CONSTANTS.BOUNDARY_MARGIN;
+}
+
+/**
+ * Push a ship back in along each axis it has crossed the hard edge on: its outward
+ * velocity is cancelled and replaced by a push that grows with the overshoot.
+ * Mutates the given state in place.
+ */
+export function pushBackFromHardEdge(state: { position: Vector3; velocity: Vector3 }, size: number) {
+    const edge = getHardEdge(size);
+    for (const axis of ['x', 'y', 'z'] as const) {
+        const overshoot = Math.abs(state.position[axis]) - edge;
+        if (overshoot <= 0) continue;
+
+        const inward = -Math.sign(state.position[axis]);
+        const push = GAME_CONSTANTS.BOUNDARY_PUSH_SPEED + overshoot * GAME_CONSTANTS.BOUNDARY_PUSH_STIFFNESS;
+        state.velocity[axis] = inward * Math.max(push, state.velocity[axis] * inward);
+    }
+}
+
+// Keep a point inside the combat zone (bots never leave it)
+export function clampToCombatZone(position: Vector3, size: number) {
+    const half = size / 2;
+    position.x = Math.max(-half, Math.min(half, position.x));
+    position.y = Math.max(-half, Math.min(half, position.y));
+    position.z = Math.max(-half, Math.min(half, position.z));
+}
@@ -0,0 +1,67 @@
+/**
+ * Arena Maps
+ * Battlegrounds described as data (shared/maps/*.json) so the server and every client
+ * agree on the play area, spawn points, power-ups, hill zones, obstacles and look of a match.
+ */
+
+import { PowerUpType, SpawnSet, Vector3 } from './Protocol.js';
+import solar from './maps/solar.json' with { type: 'json' };
+import earth from './maps/earth.json' with { type: 'json' };
+import mars from './maps/mars.json' with { type: 'json' };
+import jupiter from './maps/jupiter.json' with { type: 'json' };
+
+// Planets and scenery drawn around the play area
+export type MapBackdrop = 'solar' | 'earth' | 'mars' | 'jupiter';
+
+export interface MapTheme {
+    backdrop: MapBackdrop;
+    skyColor: string;     // CSS hex colors
+    fogColor: string;
+    ambientColor: string;
+    sunColor: string;
+    starColors: string[];
+    asteroidColor: string;
+}
+
+export interface MapObstacle {
+    type: 'asteroid' | 'wreck';
+    position: Vector3;
+    radius: number;
+}
+
+// Seeded asteroids scattered in a ring around the arena center (see Obstacles.ts)
+export interface AsteroidField {
+    seed: number;
+    count: number;
+    minDistance: number;  // Horizontal distance from the center
+    maxDistance: number;
+    height: number;       // Vertical spread
+    minRadius: number;
+    maxRadius: number;
+}
+
+export interface ArenaMap {
+    id: string;
+    name: string;
+    icon: string;
+    theme: MapTheme;
+    bounds: { size: number }; // Edge length of the cube the match is played in
+    spawns: SpawnSet;
+    powerUps: { type: PowerUpType; position: Vector3 }[];
+    zonePoints: Vector3[];    // King of the hill zone positions, visited in order
+    obstacles: MapObstacle[];
+    asteroidField: AsteroidField;
+}
+
+export const ARENA_MAPS: ArenaMap[] = [solar, earth, mars, jupiter] as ArenaMap[];
+
+export const DEFAULT_MAP_ID = 'solar';
+
+export function isMapId(id: unknown): id is string {
+    return ARENA_MAPS.some(map => map.id === id);
+}
+
+// Unknown ids (old replays, bad input) fall back to the default map
+export function getArenaMap(id?: string): ArenaMap {
+    return ARENA_MAPS.find(map => map.id === id) ?? ARENA_MAPS.find(map => map.id === DEFAULT_MAP_ID)!;
+}
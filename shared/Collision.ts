@@ -0,0 +1,79 @@
+/**
+ * Shared Collision
+ * Ship hitbox and projectile sizes, plus the swept test the server uses for hit detection.
+ * The client uses the same shapes to draw the debug hitbox view.
+ */
+
+import { ProjectileType, Quaternion, Vector3 } from './Protocol.js';
+import { rotateVector } from './FlightModel.js';
+
+// Oriented box around the ship in its local space (nose along -Z).
+// Matches PlayerShip.buildShip: fuselage + nose about 5.5 units long, wingtips at +/-3.5, tail fin 1.2 tall.
+export const SHIP_HITBOX = {
+    center: { x: 0, y: 0.2, z: -0.2 } as Vector3,
+    halfExtents: { x: 3.5, y: 0.8, z: 2.8 } as Vector3,
+};
+
+// Collision radius of each projectile type
+export const PROJECTILE_RADII: Record<ProjectileType, number> = {
+    laser: 1.0,
+    missile: 1.5,
+    plasma: 2.0,
+};
+
+// Transform a world point into the hitbox's local frame (centered on the box)
+function toHitboxSpace(point: Vector3, shipPosition: Vector3, shipRotation: Quaternion): Vector3 {
+    const inverse = { x: -shipRotation.x, y: -shipRotation.y, z: -shipRotation.z, w: shipRotation.w };
+    const local = rotateVector({
+        x: point.x - shipPosition.x,
+        y: point.y - shipPosition.y,
+        z: point.z - shipPosition.z,
+    }, inverse);
+
+    return {
+        x: local.x - SHIP_HITBOX.center.x,
+        y: local.y - SHIP_HITBOX.center.y,
+        z: local.z - SHIP_HITBOX.center.z,
+    };
+}
+
+/**
+ * Sweep a sphere from `from` to `to` against a ship's hitbox.
+ * Returns the fraction (0..1) of the move at first contact, or null on a miss.
+ * The box is inflated by the sphere radius, which slightly rounds up the corners.
+ */
+export function sweepSphereVsShip(
+    from: Vector3,
+    to: Vector3,
+    radius: number,
+    shipPosition: Vector3,
+    shipRotation: Quaternion
+): number | null {
+    const start = toHitboxSpace(from, shipPosition, shipRotation);
+    const end = toHitboxSpace(to, shipPosition, shipRotation);
+
+    let tMin = 0;
+    let tMax = 1;
+
+    for (const axis of ['x', 'y', 'z'] as const) {
+        const half = SHIP_HITBOX.halfExtents[axis] + radius;
+        const origin = start[axis];
+        const delta = end[axis] - origin;
+
+        if (Math.abs(delta) < 1e-9) {
+            // Moving parallel to this slab - must already be inside it
+            if (origin < -half || origin > half) return null;
+            continue;
+        }
+
+        let t1 = (-half - origin) / delta;
+        let t2 = (half - origin) / delta;
+        if (t1 > t2) [t1, t2] = [t2, t1];
+
+        tMin = Math.max(tMin, t1);
+        tMax = Math.min(tMax, t2);
+        if (tMin > tMax) return null;
+    }
+
+    return tMin;
+}
@@ -0,0 +1,222 @@
+/**
+ * Shared Flight Model
+ * Deterministic ship physics used by both the server simulation and client-side prediction.
+ * Works on plain Vector3/Quaternion objects so the server does not need three.js.
+ */
+
+import { PlayerInput, Quaternion, Vector3, GAME_CONSTANTS } from './Protocol.js';
+import { Obstacle, resolveObstacleCollisions } from './Obstacles.js';
+import { pushBackFromHardEdge } from './ArenaBounds.js';
+
+// Ship handling
+const ROTATION_SPEED = 1.6;
+const PITCH_YAW_SCALE = 0.9;
+const ROLL_SCALE = 1.5;
+const VERTICAL_THRUST_SCALE = 0.6;
+const THRUST_RESPONSE = 5;      // How quickly velocity follows thrust (per second)
+const BRAKE_FACTOR = 0.92;      // Extra damping when no movement keys are held
+const ROLL_RECOVERY = 0.9;      // Auto-level roll factor per step
+const PITCH_RECOVERY = 0.95;    // Auto-level pitch factor per step
+
+// Input sanity limits (server-side clamping)
+export const MAX_INPUT_DELTA = 0.1;
+const MAX_LOOK_INPUT = 10;
+
+// Minimal physics state shared by PlayerState and the client ship
+export interface FlightState {
+    position: Vector3;
+    rotation: Quaternion;
+    velocity: Vector3;
+}
+
+// What a ship flies through: the map's play area and its solid obstacles
+export interface FlightWorld {
+    size: number; // Edge length of the combat zone cube
+    obstacles: Obstacle[];
+}
+
+const OPEN_SPACE: FlightWorld = { size: GAME_CONSTANTS.WORLD_SIZE, obstacles: [] };
+
+const AXIS_X: Vector3 = { x: 1, y: 0, z: 0 };
+const AXIS_Y: Vector3 = { x: 0, y: 1, z: 0 };
+const AXIS_Z: Vector3 = { x: 0, y: 0, z: 1 };
+
+// Quaternion helpers
+
+export function multiplyQuaternions(a: Quaternion, b: Quaternion): Quaternion {
+    return {
+        x: a.x * b.w + a.w * b.x + a.y * b.z - a.z * b.y,
+        y: a.y * b.w + a.w * b.y + a.z * b.x - a.x * b.z,
+        z: a.z * b.w + a.w * b.z + a.x * b.y - a.y * b.x,
+        w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+    };
+}
+
+export function quaternionFromAxisAngle(axis: Vector3, angle: number): Quaternion {
+    const half = angle / 2;
+    const s = Math.sin(half);
+    return { x: axis.x * s, y: axis.y * s, z: axis.z * s, w: Math.cos(half) };
+}
+
+export function normalizeQuaternion(q: Quaternion): Quaternion {
+    const len = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z + q.w * q.w);
+    if (len === 0) return { x: 0, y: 0, z: 0, w: 1 };
+    return { x: q.x / len, y: q.y / len, z: q.z / len, w: q.w / len };
+}
+
+export function rotateVector(v: Vector3, q: Quaternion): Vector3 {
+    const ix = q.w * v.x + q.y * v.z - q.z * v.y;
+    const iy = q.w * v.y + q.z * v.x - q.x * v.z;
+    const iz = q.w * v.z + q.x * v.y - q.y * v.x;
+    const iw = -q.x * v.x - q.y * v.y - q.z * v.z;
+
+    return {
+        x: ix * q.w + iw * -q.x + iy * -q.z - iz * -q.y,
+        y: iy * q.w + iw * -q.y + iz * -q.x - ix * -q.z,
+        z: iz * q.w + iw * -q.z + ix * -q.y - iy * -q.x,
+    };
+}
+
+// Euler angles in YXZ order (yaw, then pitch, then roll) - matches three.js
+function toEulerYXZ(q: Quaternion): Vector3 {
+    const x2 = q.x + q.x, y2 = q.y + q.y, z2 = q.z + q.z;
+    const xx = q.x * x2, xy = q.x * y2, xz = q.x * z2;
+    const yy = q.y * y2, yz = q.y * z2, zz = q.z * z2;
+    const wx = q.w * x2, wy = q.w * y2, wz = q.w * z2;
+
+    const m11 = 1 - (yy + zz), m13 = xz + wy;
+    const m21 = xy + wz, m22 = 1 - (xx + zz), m23 = yz - wx;
+    const m31 = xz - wy, m33 = 1 - (xx + yy);
+
+    const x = Math.asin(-Math.max(-1, Math.min(1, m23)));
+    if (Math.abs(m23) < 0.9999999) {
+        return { x, y: Math.atan2(m13, m33), z: Math.atan2(m21, m22) };
+    }
+    return { x, y: Math.atan2(-m31, m11), z: 0 };
+}
+
+function fromEulerYXZ(e: Vector3): Quaternion {
+    const c1 = Math.cos(e.x / 2), c2 = Math.cos(e.y / 2), c3 = Math.cos(e.z / 2);
+    const s1 = Math.sin(e.x / 2), s2 = Math.sin(e.y / 2), s3 = Math.sin(e.z / 2);
+
+    return {
+        x: s1 * c2 * c3 + c1 * s2 * s3,
+        y: c1 * s2 * c3 - s1 * c2 * s3,
+        z: c1 * c2 * s3 - s1 * s2 * c3,
+        w: c1 * c2 * c3 + s1 * s2 * s3,
+    };
+}
+
+export function getForwardVector(q: Quaternion): Vector3 {
+    return rotateVector({ x: 0, y: 0, z: -1 }, q);
+}
+
+// Orientation that points the ship's nose (-Z) along a direction
+export function lookRotation(direction: Vector3): Quaternion {
+    const len = Math.sqrt(direction.x * direction.x + direction.y * direction.y + direction.z * direction.z);
+    if (len === 0) return { x: 0, y: 0, z: 0, w: 1 };
+
+    const yaw = Math.atan2(-direction.x, -direction.z);
+    const pitch = Math.asin(Math.max(-1, Math.min(1, direction.y / len)));
+    return fromEulerYXZ({ x: pitch, y: yaw, z: 0 });
+}
+
+// Anything that isn't a finite number counts as 0
+function finite(value: unknown): number {
+    return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function clamp(value: number, limit: number): number {
+    return Math.max(-limit, Math.min(limit, finite(value)));
+}
+
+// Clamp untrusted input into the ranges the flight model expects
+export function sanitizeInput(input: PlayerInput): PlayerInput {
+    return {
+        ...input,
+        forward: clamp(input.forward, 1),
+        strafe: clamp(input.strafe, 1),
+        vertical: clamp(input.vertical, 1),
+        roll: clamp(input.roll, 1),
+        pitch: clamp(input.pitch, MAX_LOOK_INPUT),
+        yaw: clamp(input.yaw, MAX_LOOK_INPUT),
+        deltaTime: Math.max(0, Math.min(MAX_INPUT_DELTA, finite(input.deltaTime))),
+        boost: !!input.boost,
+        flip: !!input.flip,
+    };
+}
+
+/**
+ * Advance a ship by one input frame. Mutates the given state in place.
+ * speedMultiplier comes from active status effects (speed boost).
+ * Returns the speed the ship struck an obstacle at this frame (0 = no contact).
+ */
+export function stepFlight(state: FlightState, input: PlayerInput, delta: number, speedMultiplier: number = 1, world: FlightWorld = OPEN_SPACE): number {
+    let q = state.rotation;
+
+    // Instant 180-degree flip
+    if (input.flip) {
+        q = multiplyQuaternions(q, quaternionFromAxisAngle(AXIS_Y, Math.PI));
+    }
+
+    const speed = GAME_CONSTANTS.PLAYER_SPEED * speedMultiplier * (input.boost ? GAME_CONSTANTS.PLAYER_BOOST_MULTIPLIER : 1);
+
+    // Ship orientation vectors
+    const forward = rotateVector({ x: 0, y: 0, z: -1 }, q);
+    const right = rotateVector(AXIS_X, q);
+    const up = rotateVector(AXIS_Y, q);
+
+    // Thrust in ship space
+    const verticalSpeed = input.vertical * speed * VERTICAL_THRUST_SCALE;
+    const thrust = {
+        x: forward.x * input.forward * speed + right.x * input.strafe * speed + up.x * verticalSpeed,
+        y: forward.y * input.forward * speed + right.y * input.strafe * speed + up.y * verticalSpeed,
+        z: forward.z * input.forward * speed + right.z * input.strafe * speed + up.z * verticalSpeed,
+    };
+
+    // Heavy drag for stable flight (stops quickly)
+    const response = Math.min(1, delta * THRUST_RESPONSE);
+    const v = state.velocity;
+    v.x += (thrust.x - v.x) * response;
+    v.y += (thrust.y - v.y) * response;
+    v.z += (thrust.z - v.z) * response;
+
+    // Stronger braking when no input
+    if (Math.abs(input.forward) < 0.1 && Math.abs(input.strafe) < 0.1 && Math.abs(input.vertical) < 0.1) {
+        v.x *= BRAKE_FACTOR;
+        v.y *= BRAKE_FACTOR;
+        v.z *= BRAKE_FACTOR;
+    }
+
+    // Ships that flew past the arena's hard edge are pushed back in
+    pushBackFromHardEdge(state, world.size);
+
+    // Integrate position
+    const p = state.position;
+    p.x += v.x * delta;
+    p.y += v.y * delta;
+    p.z += v.z * delta;
+
+    // Rocks and wrecks are solid
+    const impact = resolveObstacleCollisions(state, world.obstacles);
+
+    // Pitch and roll around the ship's own axes, yaw around world up
+    const pitchAmount = -input.pitch * ROTATION_SPEED * delta * PITCH_YAW_SCALE;
+    const yawAmount = -input.yaw * ROTATION_SPEED * delta * PITCH_YAW_SCALE;
+    const rollAmount = input.roll * ROTATION_SPEED * delta * ROLL_SCALE;
+
+    q = multiplyQuaternions(q, quaternionFromAxisAngle(AXIS_X, pitchAmount));
+    q = multiplyQuaternions(quaternionFromAxisAngle(AXIS_Y, yawAmount), q);
+    q = multiplyQuaternions(q, quaternionFromAxisAngle(AXIS_Z, rollAmount));
+
+    // Auto-level roll and pitch when not actively steering
+    if (Math.abs(input.roll) < 0.1 || Math.abs(input.pitch) < 0.05) {
+        const euler = toEulerYXZ(q);
+        if (Math.abs(input.roll) < 0.1) euler.z *= ROLL_RECOVERY;
+        if (Math.abs(input.pitch) < 0.05) euler.x *= PITCH_RECOVERY;
+        q = fromEulerYXZ(euler);
+    }
+
+    state.rotation = normalizeQuaternion(q);
+    return impact;
+}
@@ -0,0 +1,232 @@
+/**
+ * Shared Obstacles
+ * The solid rocks and wrecks of a map. Placement is seeded from the map data, so the server
+ * and every client generate the same field, and the collision tests here are shared by the
+ * server simulation and client-side prediction.
+ */
+
+import { Vector3, GAME_CONSTANTS } from './Protocol.js';
+import { ArenaMap } from './ArenaMaps.js';
+import { getBoundaryExcess } from './ArenaBounds.js';
+
+// Ships collide with obstacles as a sphere this big (roughly the hitbox's wingspan)
+export const SHIP_COLLISION_RADIUS = 3;
+
+// Field asteroids keep this far from spawns, pickups and each other
+const SPAWN_CLEARANCE = 30;
+const POWERUP_CLEARANCE = 20;
+const OBSTACLE_GAP = 10;
+const PLACEMENT_ATTEMPTS = 20;
+
+// Iterations used to find where a projectile's path first touches an obstacle
+const SWEEP_ITERATIONS = 16;
+
+/**
+ * A sphere, or a capsule when halfLength > 0: every point within `radius` of the segment
+ * running `halfLength` either way from `position` along `axis`.
+ */
+export interface Obstacle {
+    type: 'asteroid' | 'wreck';
+    position: Vector3;
+    radius: number;
+    axis: Vector3;      // Unit length
+    halfLength: number;
+}
+
+// Small seeded PRNG (mulberry32) - Math.random can't be made to agree across machines
+export function seededRandom(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function randomAxis(random: () => number): Vector3 {
+    const theta = random() * Math.PI * 2;
+    const y = random() * 2 - 1;
+    const r = Math.sqrt(1 - y * y);
+    return { x: Math.cos(theta) * r, y, z: Math.sin(theta) * r };
+}
+
+/**
+ * Build a map's obstacles: the rocks and wrecks it places by hand, then its seeded
+ * asteroid field. The same map always gives the same list, in the same order.
+ */
+export function generateObstacles(map: ArenaMap): Obstacle[] {
+    const field = map.asteroidField;
+    const random = seededRandom(field.seed);
+
+    // Wrecks are a capsule along the hull (the thin wing is left out)
+    const obstacles: Obstacle[] = map.obstacles.map(placed => ({
+        type: placed.type,
+        position: { ...placed.position },
+        radius: placed.type === 'wreck' ? placed.radius / 2 : placed.radius,
+        axis: randomAxis(random),
+        halfLength: placed.type === 'wreck' ? placed.radius / 2 : 0,
+    }));
+
+    for (let i = 0; i < field.count; i++) {
+        for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+            const angle = random() * Math.PI * 2;
+            const distance = field.minDistance + random() * (field.maxDistance - field.minDistance);
+            const radius = field.minRadius + random() * (field.maxRadius - field.minRadius);
+            const position = {
+                x: Math.cos(angle) * distance,
+                y: (random() - 0.5) * field.height,
+                z: Math.sin(angle) * distance,
+            };
+            const axis = randomAxis(random);
+
+            if (isClear(map, obstacles, position, radius)) {
+                obstacles.push({ type: 'asteroid', position, radius, axis, halfLength: 0 });
+                break;
+            }
+        }
+    }
+
+    return obstacles;
+}
+
+// Whether a field asteroid would sit wholly inside the combat zone, out of the way of
+// spawns, pickups and other obstacles
+function isClear(map: ArenaMap, obstacles: Obstacle[], position: Vector3, radius: number): boolean {
+    if (getBoundaryExcess(position, map.bounds.size) + radius > 0) return false;
+    const { ffa, red, blue } = map.spawns;
+    if ([...ffa, ...red, ...blue].some(spawn => distance(spawn, position) < radius + SPAWN_CLEARANCE)) return false;
+    if (map.powerUps.some(powerUp => distance(powerUp.position, position) < radius + POWERUP_CLEARANCE)) return false;
+    return obstacles.every(other =>
+        distance(other.position, position) >= radius + other.radius + other.halfLength + OBSTACLE_GAP);
+}
+
+// Nearest point on an obstacle's spine (its center for a sphere)
+export function closestPointOnObstacle(obstacle: Obstacle, point: Vector3): Vector3 {
+    const { position, axis, halfLength } = obstacle;
+    if (halfLength === 0) return position;
+
+    const along = Math.max(-halfLength, Math.min(halfLength, dot(sub(point, position), axis)));
+    return {
+        x: position.x + axis.x * along,
+        y: position.y + axis.y * along,
+        z: position.z + axis.z * along,
+    };
+}
+
+// Distance from a point to an obstacle's spine; the point touches it below radius
+function spineDistance(obstacle: Obstacle, point: Vector3): number {
+    return distance(point, closestPointOnObstacle(obstacle, point));
+}
+
+/**
+ * Push a ship out of any obstacle it overlaps and bounce its velocity off the surface.
+ * Mutates the given state in place and returns the speed it struck at (0 = no contact).
+ */
+export function resolveObstacleCollisions(
+    state: { position: Vector3; velocity: Vector3 },
+    obstacles: Obstacle[],
+    radius: number = SHIP_COLLISION_RADIUS
+): number {
+    const p = state.position;
+    const v = state.velocity;
+    let impact = 0;
+
+    for (const obstacle of obstacles) {
+        const reach = obstacle.radius + radius;
+        if (distance(p, obstacle.position) > reach + obstacle.halfLength) continue;
+
+        const closest = closestPointOnObstacle(obstacle, p);
+        const offset = sub(p, closest);
+        const dist = Math.sqrt(dot(offset, offset));
+        if (dist >= reach) continue;
+
+        // Out along the surface normal (straight up if dead center)
+        const normal = dist > 1e-6 ? { x: offset.x / dist, y: offset.y / dist, z: offset.z / dist } : { x: 0, y: 1, z: 0 };
+        p.x = closest.x + normal.x * reach;
+        p.y = closest.y + normal.y * reach;
+        p.z = closest.z + normal.z * reach;
+
+        // Reflect the part of the velocity heading into the obstacle, losing some of it
+        const into = dot(v, normal);
+        if (into < 0) {
+            const bounce = (1 + GAME_CONSTANTS.OBSTACLE_BOUNCE) * into;
+            v.x -= normal.x * bounce;
+            v.y -= normal.y * bounce;
+            v.z -= normal.z * bounce;
+            impact = Math.max(impact, -into);
+        }
+    }
+
+    return impact;
+}
+
+/**
+ * Sweep a sphere from `from` to `to` against the obstacles.
+ * Returns the fraction (0..1) of the move at first contact, or null if the path is clear.
+ */
+export function sweepSphereVsObstacles(from: Vector3, to: Vector3, radius: number, obstacles: Obstacle[]): number | null {
+    const move = sub(to, from);
+    const at = (t: number): Vector3 => ({ x: from.x + move.x * t, y: from.y + move.y * t, z: from.z + move.z * t });
+    let first: number | null = null;
+
+    for (const obstacle of obstacles) {
+        const reach = obstacle.radius + radius;
+
+        // Broad phase: the path must pass near the obstacle at all
+        if (distance(closestPointOnPath(from, move, obstacle.position), obstacle.position) > reach + obstacle.halfLength) continue;
+
+        // Already touching at the start of the move
+        if (spineDistance(obstacle, from) < reach) return 0;
+
+        // Distance to the spine along the path is convex: find its minimum...
+        let low = 0;
+        let high = 1;
+        for (let i = 0; i < SWEEP_ITERATIONS; i++) {
+            const a = low + (high - low) / 3;
+            const b = high - (high - low) / 3;
+            if (spineDistance(obstacle, at(a)) < spineDistance(obstacle, at(b))) {
+                high = b;
+            } else {
+                low = a;
+            }
+        }
+        const nearest = (low + high) / 2;
+        if (spineDistance(obstacle, at(nearest)) >= reach) continue;
+
+        // ...then the point before it where the path first comes within reach
+        low = 0;
+        high = nearest;
+        for (let i = 0; i < SWEEP_ITERATIONS; i++) {
+            const mid = (low + high) / 2;
+            if (spineDistance(obstacle, at(mid)) < reach) {
+                high = mid;
+            } else {
+                low = mid;
+            }
+        }
+        if (first === null || high < first) first = high;
+    }
+
+    return first;
+}
+
+function closestPointOnPath(from: Vector3, move: Vector3, point: Vector3): Vector3 {
+    const lengthSq = dot(move, move);
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, dot(sub(point, from), move) / lengthSq)) : 0;
+    return { x: from.x + move.x * t, y: from.y + move.y * t, z: from.z + move.z * t };
+}
+
+function sub(a: Vector3, b: Vector3): Vector3 {
+    return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function dot(a: Vector3, b: Vector3): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function distance(a: Vector3, b: Vector3): number {
+    const d = sub(a, b);
+    return Math.sqrt(dot(d, d));
+}
@@ -31,13 +31,35 @@ export interface PlayerState {
     kills: number;
     deaths: number;
     team: 'red' | 'blue' | null; // null for FFA
+    isBot: boolean;
     isAlive: boolean;
     lastUpdateTime: number;
+    lastProcessedInput: number; // Highest input sequence applied by the server
+    effects: StatusEffect[];    // Timed power-up effects
+    spawnProtectedUntil: number; // Server time spawn protection runs out (0 once it has ended)
+    boundaryDamageAt: number;    // Server time the next out-of-bounds damage lands (0 inside the combat zone)
+    outOfBoundsSince: number;    // Server time the ship left the combat zone (0 inside it)
+}
+
+// Timed status effects granted by power-ups
+export type StatusEffectType = 'speed' | 'rapidfire' | 'damage';
+
+export interface StatusEffect {
+    type: StatusEffectType;
+    expiresAt: number; // Server time (ms)
+    duration: number;  // Total duration (ms), for countdown display
 }
 
 // Projectile types
 export type ProjectileType = 'laser' | 'missile' | 'plasma';
 
+export function isProjectileType(value: unknown): value is ProjectileType {
+    return value === 'laser' || value === 'missile' || value === 'plasma';
+}
+
+// What dealt damage: a weapon, flying into an obstacle, or staying out of bounds
+export type DamageSource = ProjectileType | 'collision' | 'boundary';
+
 export interface ProjectileState {
     id: string;
     ownerId: string;
@@ -46,6 +68,7 @@ export interface ProjectileState {
     velocity: Vector3;
     damage: number;
     createdAt: number;
+    targetId?: string | null; // Homing missiles: the player being tracked
 }
 
 // Power-up types
@@ -57,10 +80,113 @@ export interface PowerUpState {
     position: Vector3;
     respawnTime: number;
     isActive: boolean;
+    expiresAt?: number; // Dropped by a bot: disappears at this time or once collected
 }
 
 // Game mode
-export type GameMode = 'ffa' | 'team';
+export type GameMode = 'ffa' | 'team' | 'ctf' | 'koth' | 'survival' | 'elimination';
+
+// Modes where players are split into red and blue
+export function isTeamMode(mode: GameMode): boolean {
+    return mode === 'team' || mode === 'ctf';
+}
+
+// Candidate spawn points a map offers: anywhere in free-for-all, and each team's base
+export interface SpawnSet {
+    ffa: Vector3[];
+    red: Vector3[];
+    blue: Vector3[];
+}
+
+// Capture the flag
+export type FlagStatus = 'home' | 'carried' | 'dropped';
+
+export interface FlagState {
+    team: 'red' | 'blue';       // Team the flag belongs to
+    status: FlagStatus;
+    position: Vector3;
+    carrierId: string | null;
+    returnAt: number;           // Server time a dropped flag returns home (0 unless dropped)
+}
+
+// King of the hill: a zone that moves between fixed points. In KOTH players may join
+// a team or fly solo, so the zone is held by a "side" - a team name or a player id.
+export interface ControlZoneState {
+    position: Vector3;
+    radius: number;
+    ownerId: string | null;         // Side holding the zone
+    capturingId: string | null;     // Side currently taking it over
+    progress: number;               // 0..1 capture progress of capturingId
+    contested: boolean;             // More than one side inside
+    movesAt: number;                // Server time the zone relocates
+    scores: Record<string, number>; // Zone points by side
+}
+
+export function getSideId(player: { id: string; team: 'red' | 'blue' | null }): string {
+    return player.team ?? player.id;
+}
+
+// Co-op survival: humans (blue) against waves of bots (red)
+export interface SurvivalState {
+    wave: number;           // Current or last completed wave (0 before the first)
+    phase: 'rest' | 'wave';
+    nextWaveAt: number;     // Server time the next wave starts (0 during a wave)
+    botsRemaining: number;
+}
+
+// Elimination: no respawns mid-round, the last side (team or solo player) flying takes the round
+export interface EliminationState {
+    round: number;                  // Round within the current match
+    phase: 'fighting' | 'intermission';
+    waiting: boolean;               // Fewer than two sides present - the round hasn't really begun
+    roundEndsAt: number;            // Server time the fighting round times out
+    nextRoundAt: number;            // Server time the next round starts (intermission only)
+    wins: Record<string, number>;   // Rounds won by side
+    roundWinnerId: string | null;   // Side that took the last round (null if drawn)
+}
+
+export type FlagEventType = 'pickup' | 'drop' | 'return' | 'capture';
+
+export interface FlagEventData {
+    type: FlagEventType;
+    team: 'red' | 'blue';       // Flag involved
+    playerId: string | null;    // null when a dropped flag times out
+    playerName: string | null;
+    position: Vector3;
+}
+
+// Match lifecycle
+export type MatchPhase = 'warmup' | 'live' | 'overtime' | 'postmatch';
+
+export interface MatchState {
+    phase: MatchPhase;
+    phaseEndsAt: number;  // Server time the current phase ends
+    round: number;
+    timeLimit: number;    // ms of live play
+    scoreLimit: number;   // Kills (FFA), team kills, flag captures or zone points needed to win
+}
+
+export interface MatchStanding {
+    playerId: string;
+    name: string;
+    team: 'red' | 'blue' | null;
+    isBot: boolean;
+    score: number;
+    kills: number;
+    deaths: number;
+}
+
+// Sent when a match finishes
+export interface MatchEndData {
+    round: number;
+    winnerId: string | null;              // FFA winner
+    winnerTeam: 'red' | 'blue' | null;    // Team winner
+    isDraw: boolean;
+    standings: MatchStanding[];           // Best first
+    teamScores: { red: number; blue: number };
+    nextRoundAt: number;                  // Server time the next warmup starts
+    wave?: number;                        // Survival: wave the run reached
+}
 
 // Full game state sent to clients
 export interface GameState {
@@ -72,26 +198,91 @@ export interface GameState {
     serverTime: number;
 }
 
+// Bot AI skill tiers, weakest first
+export type BotDifficulty = 'easy' | 'normal' | 'hard' | 'ace';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'normal', 'hard', 'ace'];
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+    return BOT_DIFFICULTIES.includes(value as BotDifficulty);
+}
+
+// Sandbox options for a practice session, changed from the in-game practice menu
+export interface PracticeSettings {
+    botCount: number;
+    botBehavior: 'aggressive' | 'passive';
+    botDifficulty: BotDifficulty;
+    infiniteAmmo: boolean;   // Every weapon fires at the laser rate and flares never recharge
+    invulnerable: boolean;
+    instantRespawn: boolean;
+}
+
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = {
+    botCount: 3,
+    botBehavior: 'aggressive',
+    botDifficulty: 'normal',
+    infiniteAmmo: false,
+    invulnerable: false,
+    instantRespawn: false,
+};
+
+// Lobby room listing
+export interface RoomInfo {
+    id: string;
+    name: string;
+    gameMode: GameMode;
+    playerCount: number;
+    maxPlayers: number;
+    isPractice: boolean;
+    mapId: string;
+}
+
+// Request to open a new room
+export interface CreateRoomData {
+    name: string;
+    mode: GameMode;
+    mapId?: string;
+}
+
 // Client -> Server events
 export interface ClientToServerEvents {
-    'player:join': (data: { name: string; team?: 'red' | 'blue'; mode?: string; botBehavior?: string }) => void;
+    'room:list': () => void;
+    'room:create': (data: CreateRoomData) => void;
+    'player:join': (data: { name: string; roomId?: string; team?: 'red' | 'blue'; mode?: string; mapId?: string; botBehavior?: string; botDifficulty?: string; botCount?: number }) => void; // mapId: practice only
+    'player:spectate': (data: { roomId?: string; mode?: string }) => void;
     'player:input': (data: PlayerInput) => void;
+    'snapshot:ack': (snapshotId: number) => void;
     'player:shoot': (data: ShootInput) => void;
+    'player:flare': () => void;
     'player:respawn': () => void;
     'chat:message': (message: string) => void;
+    'practice:settings': (changes: Partial<PracticeSettings>) => void; // Ignored outside practice
 }
 
 // Server -> Client events
 export interface ServerToClientEvents {
-    'game:state': (state: SerializedGameState) => void;
+    'room:list': (rooms: RoomInfo[]) => void;
+    'room:created': (room: RoomInfo) => void;
+    'room:error': (message: string) => void; // A room could not be created or joined (e.g. the server is full)
+    'game:snapshot': (data: ArrayBuffer) => void; // SnapshotCodec-encoded SerializedGameState
     'game:init': (data: InitData) => void;
+    'game:spectate': (data: SpectateData) => void;
     'player:joined': (player: PlayerState) => void;
     'player:left': (playerId: string) => void;
     'player:hit': (data: HitData) => void;
     'player:killed': (data: KillData) => void;
     'player:respawned': (player: PlayerState) => void;
+    'player:shoot:rejected': (data: ShotRejectedData) => void;
+    'player:flare': (playerId: string) => void;
+    'projectile:detonated': (data: DetonationData) => void;
+    'missile:locked': (data: MissileLockData) => void; // Sent only to the missile's target
+    'missile:lost': (missileId: string) => void;       // Sent only to the missile's target
     'powerup:collected': (data: PowerUpCollectedData) => void;
     'chat:message': (data: ChatMessage) => void;
+    'match:ended': (data: MatchEndData) => void;
+    'flag:event': (data: FlagEventData) => void;
+    'practice:settings': (settings: PracticeSettings) => void; // Sent on joining practice and after each change
+    'latency:ping': (callback: () => void) => void; // Acked immediately so the server can measure RTT
 }
 
 // Serialized game state (Map -> Record for JSON)
@@ -101,6 +292,11 @@ export interface SerializedGameState {
     powerUps: PowerUpState[];
     gameMode: GameMode;
     teamScores: { red: number; blue: number };
+    match: MatchState;
+    flags: FlagState[];   // Empty outside capture the flag
+    zone: ControlZoneState | null; // King of the hill only
+    survival: SurvivalState | null;
+    elimination: EliminationState | null;
     serverTime: number;
 }
 
@@ -113,6 +309,9 @@ export interface PlayerInput {
     yaw: number;        // -1 to 1
     roll: number;       // -1 to 1
     boost: boolean;
+    flip: boolean;      // Instant 180-degree turn
+    sequence: number;   // Increasing per-client input number, acknowledged by the server
+    deltaTime: number;  // Seconds of simulation this input covers
     timestamp: number;
 }
 
@@ -120,15 +319,34 @@ export interface PlayerInput {
 export interface ShootInput {
     type: ProjectileType;
     direction: Vector3;
+    shotId?: number;    // Client-assigned, echoed back if the shot is rejected
+    lockTargetId?: string; // Missiles: target the shooter held a lock on
+    viewTime?: number;     // Server time of the world the shooter was seeing (for lag compensation)
+}
+
+// Sent to the shooter when the server refuses a shot (e.g. weapon still cooling down)
+export interface ShotRejectedData {
+    shotId?: number;
+    type: ProjectileType;
+    retryIn: number;    // ms until the weapon is ready again
 }
 
 // Init data sent when player joins
 export interface InitData {
     playerId: string;
+    roomId: string;
+    mapId: string;
     gameState: SerializedGameState;
     spawnPosition: Vector3;
 }
 
+// Init data sent when a spectator starts watching (spectators have no ship)
+export interface SpectateData {
+    roomId: string;
+    mapId: string;
+    gameState: SerializedGameState;
+}
+
 // Hit notification
 export interface HitData {
     targetId: string;
@@ -137,14 +355,31 @@ export interface HitData {
     newHealth: number;
 }
 
+// Area-of-effect detonation (plasma)
+export interface DetonationData {
+    projectileId: string;
+    ownerId: string;
+    type: ProjectileType;
+    position: Vector3;
+    radius: number;
+}
+
+// Missile lock warning
+export interface MissileLockData {
+    missileId: string;
+    attackerId: string;
+    attackerName: string;
+}
+
 // Kill notification
 export interface KillData {
     victimId: string;
     killerId: string;
     victimName: string;
     killerName: string;
-    weapon: ProjectileType;
+    weapon: DamageSource;
     position: Vector3; // Position where death occurred
+    respawnAt: number; // Server time the victim may respawn
 }
 
 // Power-up collected
@@ -163,18 +398,65 @@ export interface ChatMessage {
     team?: 'red' | 'blue';
 }
 
+// Match event in a replay, stamped with the server time it happened
+export type ReplayEvent =
+    | { time: number; type: 'hit'; data: HitData }
+    | { time: number; type: 'kill'; data: KillData }
+    | { time: number; type: 'detonation'; data: DetonationData }
+    | { time: number; type: 'pickup'; data: PowerUpCollectedData }
+    | { time: number; type: 'flag'; data: FlagEventData }
+    | { time: number; type: 'respawn'; data: PlayerState }
+    | { time: number; type: 'chat'; data: ChatMessage };
+
+// Saved replay as listed by the server
+export interface ReplayInfo {
+    id: string;
+    roomName: string;
+    gameMode: GameMode;
+    mapId: string;
+    round: number;
+    startedAt: number;      // Server time the match went live
+    duration: number;       // ms
+    winner: string | null;  // Winning team or pilot, null on a draw
+}
+
+// A recorded match. frames[0] is the state when the match went live; the rest follow
+// at the network send rate. Events are in time order.
+export interface ReplayData {
+    info: ReplayInfo;
+    frames: SerializedGameState[];
+    events: ReplayEvent[];
+    results: MatchEndData;
+}
+
 // Game constants
 export const GAME_CONSTANTS = {
     TICK_RATE: 60,
+    NETWORK_SEND_RATE: 20, // Snapshots per second sent to each client
+    INTERPOLATION_DELAY: 100, // ms remote entities are rendered behind the newest snapshot
     WORLD_SIZE: 500,
     MAX_PLAYERS: 16,
 
     // Player
-    PLAYER_SPEED: 50,
-    PLAYER_BOOST_MULTIPLIER: 2,
+    PLAYER_SPEED: 30,
+    PLAYER_BOOST_MULTIPLIER: 1.8,
     PLAYER_MAX_HEALTH: 100,
     PLAYER_MAX_SHIELD: 50,
     RESPAWN_TIME: 3000,
+    SPAWN_PROTECTION_TIME: 3000, // Invulnerable after spawning, until the first shot
+
+    // Obstacles
+    OBSTACLE_BOUNCE: 0.5,             // Fraction of the impact speed kept when bouncing off
+    OBSTACLE_DAMAGE_MIN_SPEED: 20,    // Slower impacts only bounce
+    OBSTACLE_DAMAGE_PER_SPEED: 1,     // Damage per unit of impact speed above the minimum
+
+    // Arena boundary: the map's play area is the combat zone (soft edge)
+    BOUNDARY_MARGIN: 60,          // Hard edge distance outside the soft edge
+    BOUNDARY_GRACE_TIME: 5000,    // ms outside the combat zone before damage starts
+    BOUNDARY_DAMAGE: 10,          // Damage per tick of out-of-bounds damage
+    BOUNDARY_DAMAGE_INTERVAL: 1000,
+    BOUNDARY_PUSH_SPEED: 20,      // Inward speed past the hard edge...
+    BOUNDARY_PUSH_STIFFNESS: 2,   // ...plus this much per unit of overshoot
 
     // Weapons
     LASER_SPEED: 400,
@@ -188,6 +470,49 @@ export const GAME_CONSTANTS = {
     PLASMA_SPEED: 120,
     PLASMA_DAMAGE: 25,
     PLASMA_COOLDOWN: 300,
+    PLASMA_SPLASH_RADIUS: 30,
+    PLASMA_SPLASH_MIN_FALLOFF: 0.25, // Fraction of damage dealt at the edge of the blast
+
+    // Homing missiles
+    MISSILE_LOCK_TIME: 800,      // ms the crosshair must stay on a target
+    MISSILE_LOCK_CONE: 0.86,     // cos of the lock-on cone (~30 degrees)
+    MISSILE_LOCK_RANGE: 400,
+    MISSILE_TURN_RATE: 1.8,      // Max steering in radians per second
+    MISSILE_SEEKER_CONE: 0.3,    // Lock breaks if the target leaves this cone (cos, ~72 degrees)
+    MISSILE_DODGE_RANGE: 40,     // Boosting across a missile's path inside this range breaks the lock
+    FLARE_COOLDOWN: 6000,
+
+    // Lag compensation: lasers are tested against targets rewound to the shooter's view
+    LAG_COMP_MAX_REWIND: 200, // ms, upper bound on how far targets are rewound
+    LAG_COMP_HISTORY: 1000,   // ms of player poses kept on the server
+
+    // Slack for network jitter when the server checks weapon cooldowns (ms)
+    SHOT_COOLDOWN_TOLERANCE: 40,
+
+    // Capture the flag
+    FLAG_PICKUP_RADIUS: 15,
+    FLAG_CAPTURE_RADIUS: 20,  // Carrier must reach their own flag's base, with it at home
+    FLAG_RETURN_TIME: 30000,  // A dropped flag goes home on its own after this long
+    FLAG_CAPTURE_SCORE: 300,
+
+    // King of the hill
+    KOTH_ZONE_RADIUS: 40,
+    KOTH_CAPTURE_TIME: 3000,       // ms alone in the zone to take it over
+    KOTH_ZONE_MOVE_INTERVAL: 60000,
+    KOTH_POINTS_PER_SECOND: 1,
+    KOTH_HOLD_SCORE: 10,           // Player score per zone point when holding the hill alone
+
+    // Survival
+    SURVIVAL_REST_TIME: 15000,    // ms between waves
+    SURVIVAL_DROP_CHANCE: 0.35,   // Chance a destroyed bot drops a power-up
+    SURVIVAL_DROP_LIFETIME: 20000,
+
+    // Practice
+    PRACTICE_MAX_BOTS: 8,
+
+    // Elimination
+    ELIMINATION_ROUND_TIME: 120000,  // ms before a stalled round goes to the side with most ships left
+    ELIMINATION_INTERMISSION: 5000,  // ms between rounds
 
     // Power-ups
     POWERUP_SPAWN_INTERVAL: 15000,
@@ -195,4 +520,25 @@ export const GAME_CONSTANTS = {
     SPEED_BOOST_DURATION: 10000,
     RAPIDFIRE_DURATION: 8000,
     DAMAGE_BOOST_DURATION: 12000,
+    SPEED_BOOST_MULTIPLIER: 1.5,
+    RAPIDFIRE_COOLDOWN_MULTIPLIER: 0.5,
+    DAMAGE_BOOST_MULTIPLIER: 1.5,
+};
+
+// Match timing and limits per mode
+export interface MatchSettings {
+    warmupTime: number;     // ms
+    timeLimit: number;      // ms of live play (0 = until the mode ends the match)
+    overtimeTime: number;   // ms of sudden death if tied at the time limit
+    postMatchTime: number;  // ms the results screen is shown
+    scoreLimit: number;     // 0 = no score limit
+}
+
+export const MATCH_SETTINGS: Record<GameMode, MatchSettings> = {
+    ffa: { warmupTime: 10000, timeLimit: 300000, overtimeTime: 60000, postMatchTime: 15000, scoreLimit: 20 },
+    team: { warmupTime: 10000, timeLimit: 600000, overtimeTime: 120000, postMatchTime: 15000, scoreLimit: 50 },
+    ctf: { warmupTime: 10000, timeLimit: 900000, overtimeTime: 180000, postMatchTime: 15000, scoreLimit: 3 },
+    koth: { warmupTime: 10000, timeLimit: 600000, overtimeTime: 60000, postMatchTime: 15000, scoreLimit: 100 },
+    survival: { warmupTime: 10000, timeLimit: 0, overtimeTime: 0, postMatchTime: 15000, scoreLimit: 0 },
+    elimination: { warmupTime: 10000, timeLimit: 0, overtimeTime: 0, postMatchTime: 15000, scoreLimit: 3 }, // Best of five rounds
 };
@@ -0,0 +1,368 @@
+/**
+ * Snapshot Codec
+ * Binary, delta-compressed encoding of SerializedGameState.
+ *
+ * Every entity is split into "hot" fields that change every tick (position, rotation,
+ * velocity, health...) which are quantized into fixed-size integers, and "cold" fields
+ * (names, scores, ids...) which are sent as JSON only when they change. Each snapshot is
+ * encoded as a delta against the last snapshot the receiving client acknowledged.
+ */
+
+import { SerializedGameState, PlayerState, ProjectileState, PowerUpState } from './Protocol.js';
+
+const CODEC_VERSION = 1;
+
+// Snapshots kept on both sides for use as delta baselines
+const HISTORY_SIZE = 64;
+
+// Quantization
+const POSITION_SCALE = 32;      // 1/32 unit precision, +-1024 range
+const VELOCITY_SCALE = 16;      // 1/16 unit/s precision, +-2048 range
+const ROTATION_SCALE = 32767;   // Unit quaternion components
+const STAT_SCALE = 10;          // Health/shield to one decimal
+
+// Per-entity change flags
+const HOT_CHANGED = 1;
+const COLD_CHANGED = 2;
+
+type FieldKind = 'i16' | 'u8' | 'u32';
+
+interface EntitySchema<T> {
+    hotKinds: FieldKind[];
+    hotKeys: (keyof T)[];
+    omitKeys?: (keyof T)[]; // Server bookkeeping not worth sending
+    quantize(entity: T): number[];
+    dequantize(values: number[]): Partial<T>;
+}
+
+interface EntityRecord {
+    hot: number[];
+    cold: string;
+}
+
+interface SnapshotRecords {
+    meta: string;
+    sections: Map<string, EntityRecord>[];
+}
+
+/**
+ * A game state split into records once per send, shared by every client's encoder.
+ * Records are never mutated, so encoders can keep them as baselines.
+ */
+export interface PreparedSnapshot {
+    serverTime: number;
+    records: SnapshotRecords;
+}
+
+const q = (value: number, scale: number) => Math.max(-32768, Math.min(32767, Math.round(value * scale)));
+
+const PLAYER_SCHEMA: EntitySchema<PlayerState> = {
+    hotKinds: ['i16', 'i16', 'i16', 'i16', 'i16', 'i16', 'i16', 'i16', 'i16', 'i16', 'i16', 'i16', 'u8', 'u32'],
+    hotKeys: ['position', 'rotation', 'velocity', 'health', 'shield', 'isAlive', 'lastProcessedInput'],
+    omitKeys: ['lastUpdateTime'],
+    quantize: (p) => [
+        q(p.position.x, POSITION_SCALE), q(p.position.y, POSITION_SCALE), q(p.position.z, POSITION_SCALE),
+        q(p.rotation.x, ROTATION_SCALE), q(p.rotation.y, ROTATION_SCALE), q(p.rotation.z, ROTATION_SCALE), q(p.rotation.w, ROTATION_SCALE),
+        q(p.velocity.x, VELOCITY_SCALE), q(p.velocity.y, VELOCITY_SCALE), q(p.velocity.z, VELOCITY_SCALE),
+        q(p.health, STAT_SCALE), q(p.shield, STAT_SCALE),
+        p.isAlive ? 1 : 0,
+        p.lastProcessedInput >>> 0,
+    ],
+    dequantize: (v) => ({
+        position: { x: v[0] / POSITION_SCALE, y: v[1] / POSITION_SCALE, z: v[2] / POSITION_SCALE },
+        rotation: { x: v[3] / ROTATION_SCALE, y: v[4] / ROTATION_SCALE, z: v[5] / ROTATION_SCALE, w: v[6] / ROTATION_SCALE },
+        velocity: { x: v[7] / VELOCITY_SCALE, y: v[8] / VELOCITY_SCALE, z: v[9] / VELOCITY_SCALE },
+        health: v[10] / STAT_SCALE,
+        shield: v[11] / STAT_SCALE,
+        isAlive: v[12] === 1,
+        lastProcessedInput: v[13],
+    }),
+};
+
+const PROJECTILE_SCHEMA: EntitySchema<ProjectileState> = {
+    hotKinds: ['i16', 'i16', 'i16', 'i16', 'i16', 'i16'],
+    hotKeys: ['position', 'velocity'],
+    quantize: (p) => [
+        q(p.position.x, POSITION_SCALE), q(p.position.y, POSITION_SCALE), q(p.position.z, POSITION_SCALE),
+        q(p.velocity.x, VELOCITY_SCALE), q(p.velocity.y, VELOCITY_SCALE), q(p.velocity.z, VELOCITY_SCALE),
+    ],
+    dequantize: (v) => ({
+        position: { x: v[0] / POSITION_SCALE, y: v[1] / POSITION_SCALE, z: v[2] / POSITION_SCALE },
+        velocity: { x: v[3] / VELOCITY_SCALE, y: v[4] / VELOCITY_SCALE, z: v[5] / VELOCITY_SCALE },
+    }),
+};
+
+const POWERUP_SCHEMA: EntitySchema<PowerUpState> = {
+    hotKinds: ['u8'],
+    hotKeys: ['isActive'],
+    quantize: (p) => [p.isActive ? 1 : 0],
+    dequantize: (v) => ({ isActive: v[0] === 1 }),
+};
+
+// Section order on the wire
+const SCHEMAS = [PLAYER_SCHEMA, PROJECTILE_SCHEMA, POWERUP_SCHEMA] as EntitySchema<unknown>[];
+
+function entityLists(state: SerializedGameState): { id: string }[][] {
+    return [Object.values(state.players), state.projectiles, state.powerUps];
+}
+
+function toRecord<T>(schema: EntitySchema<T>, entity: T): EntityRecord {
+    // The id is the record key, so it is not repeated in the cold JSON
+    const cold: Record<string, unknown> = { ...(entity as Record<string, unknown>) };
+    delete cold.id;
+    for (const key of [...schema.hotKeys, ...(schema.omitKeys ?? [])]) {
+        delete cold[key as string];
+    }
+    return { hot: schema.quantize(entity), cold: JSON.stringify(cold) };
+}
+
+function toRecords(state: SerializedGameState): SnapshotRecords {
+    const { players, projectiles, powerUps, serverTime, ...meta } = state;
+    const sections = entityLists(state).map((entities, i) => {
+        const records = new Map<string, EntityRecord>();
+        entities.forEach(entity => records.set(entity.id, toRecord(SCHEMAS[i], entity)));
+        return records;
+    });
+    return { meta: JSON.stringify(meta), sections };
+}
+
+export function prepareSnapshot(state: SerializedGameState): PreparedSnapshot {
+    return { serverTime: state.serverTime, records: toRecords(state) };
+}
+
+function sameHot(a: number[], b: number[]): boolean {
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+}
+
+// Growable little-endian byte writer
+class ByteWriter {
+    private buffer = new ArrayBuffer(1024);
+    private view = new DataView(this.buffer);
+    private offset = 0;
+    private static encoder = new TextEncoder();
+
+    private reserve(bytes: number) {
+        if (this.offset + bytes <= this.buffer.byteLength) return;
+        let size = this.buffer.byteLength * 2;
+        while (size < this.offset + bytes) size *= 2;
+        const next = new ArrayBuffer(size);
+        new Uint8Array(next).set(new Uint8Array(this.buffer, 0, this.offset));
+        this.buffer = next;
+        this.view = new DataView(next);
+    }
+
+    u8(value: number) { this.reserve(1); this.view.setUint8(this.offset, value); this.offset += 1; }
+    u16(value: number) { this.reserve(2); this.view.setUint16(this.offset, value, true); this.offset += 2; }
+    i16(value: number) { this.reserve(2); this.view.setInt16(this.offset, value, true); this.offset += 2; }
+    u32(value: number) { this.reserve(4); this.view.setUint32(this.offset, value, true); this.offset += 4; }
+    f64(value: number) { this.reserve(8); this.view.setFloat64(this.offset, value, true); this.offset += 8; }
+
+    field(kind: FieldKind, value: number) {
+        if (kind === 'i16') this.i16(value);
+        else if (kind === 'u8') this.u8(value);
+        else this.u32(value);
+    }
+
+    string(value: string) {
+        const bytes = ByteWriter.encoder.encode(value);
+        this.u32(bytes.length);
+        this.reserve(bytes.length);
+        new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+        this.offset += bytes.length;
+    }
+
+    finish(): ArrayBuffer {
+        return this.buffer.slice(0, this.offset);
+    }
+}
+
+class ByteReader {
+    private view: DataView;
+    private offset = 0;
+    private static decoder = new TextDecoder();
+
+    constructor(data: ArrayBuffer | ArrayBufferView) {
+        this.view = ArrayBuffer.isView(data)
+            ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+            : new DataView(data);
+    }
+
+    u8() { const v = this.view.getUint8(this.offset); this.offset += 1; return v; }
+    u16() { const v = this.view.getUint16(this.offset, true); this.offset += 2; return v; }
+    i16() { const v = this.view.getInt16(this.offset, true); this.offset += 2; return v; }
+    u32() { const v = this.view.getUint32(this.offset, true); this.offset += 4; return v; }
+    f64() { const v = this.view.getFloat64(this.offset, true); this.offset += 8; return v; }
+
+    field(kind: FieldKind): number {
+        if (kind === 'i16') return this.i16();
+        if (kind === 'u8') return this.u8();
+        return this.u32();
+    }
+
+    string(): string {
+        const length = this.u32();
+        const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+        this.offset += length;
+        return ByteReader.decoder.decode(bytes);
+    }
+}
+
+// Keep only the newest HISTORY_SIZE snapshots
+function trimHistory(history: Map<number, SnapshotRecords>, newestId: number) {
+    for (const id of history.keys()) {
+        if (id <= newestId - HISTORY_SIZE) history.delete(id);
+    }
+}
+
+/**
+ * Server side: one encoder per connected client.
+ */
+export class SnapshotEncoder {
+    private history: Map<number, SnapshotRecords> = new Map();
+    private nextId = 1;
+    private ackedId = 0;
+
+    // Client confirmed it decoded this snapshot - use it as the next baseline
+    ack(snapshotId: number) {
+        if (snapshotId > this.ackedId && this.history.has(snapshotId)) {
+            this.ackedId = snapshotId;
+        }
+    }
+
+    // Delta of a prepared snapshot against this client's acked baseline
+    encode(snapshot: PreparedSnapshot): ArrayBuffer {
+        const id = this.nextId++;
+        const current = snapshot.records;
+        const baseline = this.history.get(this.ackedId);
+        const baselineId = baseline ? this.ackedId : 0;
+
+        const writer = new ByteWriter();
+        writer.u8(CODEC_VERSION);
+        writer.u32(id);
+        writer.u32(baselineId);
+        writer.f64(snapshot.serverTime);
+
+        // Game-level fields (mode, team scores...)
+        if (!baseline || baseline.meta !== current.meta) {
+            writer.u8(1);
+            writer.string(current.meta);
+        } else {
+            writer.u8(0);
+        }
+
+        current.sections.forEach((records, i) => {
+            const schema = SCHEMAS[i];
+            const previous = baseline?.sections[i];
+
+            // Entities that no longer exist
+            const removed = previous ? [...previous.keys()].filter(entityId => !records.has(entityId)) : [];
+            writer.u16(removed.length);
+            removed.forEach(entityId => writer.string(entityId));
+
+            // New or changed entities
+            const changed: [string, EntityRecord, number][] = [];
+            records.forEach((record, entityId) => {
+                const before = previous?.get(entityId);
+                let flags = 0;
+                if (!before || !sameHot(before.hot, record.hot)) flags |= HOT_CHANGED;
+                if (!before || before.cold !== record.cold) flags |= COLD_CHANGED;
+                if (flags) changed.push([entityId, record, flags]);
+            });
+
+            writer.u16(changed.length);
+            for (const [entityId, record, flags] of changed) {
+                writer.string(entityId);
+                writer.u8(flags);
+                if (flags & HOT_CHANGED) {
+                    schema.hotKinds.forEach((kind, f) => writer.field(kind, record.hot[f]));
+                }
+                if (flags & COLD_CHANGED) {
+                    writer.string(record.cold);
+                }
+            }
+        });
+
+        this.history.set(id, current);
+        trimHistory(this.history, id);
+        return writer.finish();
+    }
+}
+
+/**
+ * Client side: rebuilds full SerializedGameState objects from deltas.
+ */
+export class SnapshotDecoder {
+    private history: Map<number, SnapshotRecords> = new Map();
+
+    reset() {
+        this.history.clear();
+    }
+
+    // Returns null when the baseline is unknown (snapshot cannot be applied)
+    decode(data: ArrayBuffer | ArrayBufferView): { snapshotId: number; state: SerializedGameState } | null {
+        const reader = new ByteReader(data);
+        if (reader.u8() !== CODEC_VERSION) return null;
+
+        const snapshotId = reader.u32();
+        const baselineId = reader.u32();
+        const serverTime = reader.f64();
+
+        const baseline = baselineId ? this.history.get(baselineId) : undefined;
+        if (baselineId && !baseline) return null;
+
+        const meta = reader.u8() ? reader.string() : baseline!.meta;
+        // A missing record means the stream is out of step: stop reading, the rest would be misaligned
+        const sections: Map<string, EntityRecord>[] = [];
+        for (let i = 0; i < SCHEMAS.length; i++) {
+            const schema = SCHEMAS[i];
+            const records = new Map(baseline?.sections[i]);
+
+            const removedCount = reader.u16();
+            for (let r = 0; r < removedCount; r++) {
+                records.delete(reader.string());
+            }
+
+            const changedCount = reader.u16();
+            for (let c = 0; c < changedCount; c++) {
+                const entityId = reader.string();
+                const flags = reader.u8();
+                const before = records.get(entityId);
+                const hot = flags & HOT_CHANGED ? schema.hotKinds.map(kind => reader.field(kind)) : before?.hot;
+                const cold = flags & COLD_CHANGED ? reader.string() : before?.cold;
+                if (!hot || cold === undefined) return null;
+                records.set(entityId, { hot, cold });
+            }
+            sections.push(records);
+        }
+
+        const current: SnapshotRecords = { meta, sections };
+
+        this.history.set(snapshotId, current);
+        trimHistory(this.history, snapshotId);
+
+        return { snapshotId, state: this.toState(current, serverTime) };
+    }
+
+    private toState(records: SnapshotRecords, serverTime: number): SerializedGameState {
+        const [players, projectiles, powerUps] = records.sections.map((section, i) =>
+            [...section.entries()].map(([id, record]) => ({ id, ...JSON.parse(record.cold), ...SCHEMAS[i].dequantize(record.hot) }))
+        );
+
+        const playersById: Record<string, PlayerState> = {};
+        (players as PlayerState[]).forEach(player => {
+            player.lastUpdateTime = serverTime;
+            playersById[player.id] = player;
+        });
+
+        return {
+            ...JSON.parse(records.meta),
+            players: playersById,
+            projectiles: projectiles as ProjectileState[],
+            powerUps: powerUps as PowerUpState[],
+            serverTime,
+        };
+    }
+}
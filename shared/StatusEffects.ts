@@ -0,0 +1,51 @@
+/**
+ * Status Effects
+ * Power-up effect rules shared by the server simulation and client prediction
+ */
+
+import { StatusEffect, StatusEffectType, ProjectileType, GAME_CONSTANTS } from './Protocol.js';
+
+export const EFFECT_DURATIONS: Record<StatusEffectType, number> = {
+    speed: GAME_CONSTANTS.SPEED_BOOST_DURATION,
+    rapidfire: GAME_CONSTANTS.RAPIDFIRE_DURATION,
+    damage: GAME_CONSTANTS.DAMAGE_BOOST_DURATION,
+};
+
+export const BASE_WEAPON_COOLDOWNS: Record<ProjectileType, number> = {
+    laser: GAME_CONSTANTS.LASER_COOLDOWN,
+    missile: GAME_CONSTANTS.MISSILE_COOLDOWN,
+    plasma: GAME_CONSTANTS.PLASMA_COOLDOWN,
+};
+
+export interface EffectModifiers {
+    speed: number;     // Multiplies flight speed
+    cooldown: number;  // Multiplies weapon cooldowns
+    damage: number;    // Multiplies projectile damage
+}
+
+export function isEffectActive(effects: StatusEffect[], type: StatusEffectType, now: number): boolean {
+    return effects.some(effect => effect.type === type && effect.expiresAt > now);
+}
+
+export function getEffectModifiers(effects: StatusEffect[], now: number): EffectModifiers {
+    return {
+        speed: isEffectActive(effects, 'speed', now) ? GAME_CONSTANTS.SPEED_BOOST_MULTIPLIER : 1,
+        cooldown: isEffectActive(effects, 'rapidfire', now) ? GAME_CONSTANTS.RAPIDFIRE_COOLDOWN_MULTIPLIER : 1,
+        damage: isEffectActive(effects, 'damage', now) ? GAME_CONSTANTS.DAMAGE_BOOST_MULTIPLIER : 1,
+    };
+}
+
+// With infinite ammo (practice) every weapon cycles as fast as the laser
+export function getWeaponCooldown(type: ProjectileType, modifiers: EffectModifiers, infiniteAmmo: boolean = false): number {
+    const base = infiniteAmmo ? GAME_CONSTANTS.LASER_COOLDOWN : BASE_WEAPON_COOLDOWNS[type];
+    return base * modifiers.cooldown;
+}
+
+// Grant an effect, refreshing its timer if already active
+export function applyEffect(effects: StatusEffect[], type: StatusEffectType, now: number): StatusEffect[] {
+    const duration = EFFECT_DURATIONS[type];
+    return [
+        ...effects.filter(effect => effect.type !== type),
+        { type, expiresAt: now + duration, duration },
+    ];
+}
@@ -6,12 +6,17 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { SpaceGame, GameCallbacks } from './game/SpaceGame';
 import { MainMenu } from './components/MainMenu';
-import { GameHUD } from './components/GameHUD';
+import { GameHUD, ActiveEffect, FlagIndicator, ZoneIndicator, SurvivalIndicator, EliminationIndicator, SpectatorIndicator } from './components/GameHUD';
+import { MatchResults } from './components/MatchResults';
 import { Minimap } from './components/Minimap';
 import { Leaderboard } from './components/Leaderboard';
 import { ChatPanel } from './components/ChatPanel';
 import { ControlsPanel } from './components/ControlsPanel';
-import { SerializedGameState, PlayerState } from '../shared/Protocol';
+import { PracticeMenu } from './components/PracticeMenu';
+import { ReplayControls } from './components/ReplayControls';
+import { GameClient } from './network/GameClient';
+import { ReplayPlayer } from './network/ReplayPlayer';
+import { SerializedGameState, PlayerState, RoomInfo, MatchPhase, MatchEndData, GameMode, FlagEventData, BotDifficulty, PracticeSettings, ReplayData, ReplayInfo } from '../shared/Protocol';
 
 // Server URL - change for production
 const SERVER_URL = 'http://localhost:3001';
@@ -40,12 +45,33 @@ interface ChatMessage {
     isSystem?: boolean;
 }
 
+// Chat announcement for a capture-the-flag event
+function describeFlagEvent(event: FlagEventData): string {
+    const flag = `${event.team.toUpperCase()} flag`;
+    switch (event.type) {
+        case 'pickup':
+            return `${event.playerName} took the ${flag}!`;
+        case 'drop':
+            return `The ${flag} was dropped`;
+        case 'return':
+            return event.playerName ? `${event.playerName} returned the ${flag}` : `The ${flag} returned to base`;
+        case 'capture':
+            return `${event.playerName} captured the ${flag}!`;
+    }
+}
+
 const App: React.FC = () => {
     // Game state
     const [gameState, setGameState] = useState<'menu' | 'playing'>('menu');
     const [isConnecting, setIsConnecting] = useState(false);
     const [error, setError] = useState<string | undefined>();
 
+    // Lobby
+    const [rooms, setRooms] = useState<RoomInfo[]>([]);
+    const [replays, setReplays] = useState<ReplayInfo[]>([]);
+    const [replayPlayer, setReplayPlayer] = useState<ReplayPlayer | null>(null);
+    const [createdRoomId, setCreatedRoomId] = useState<string | undefined>();
+
     // Player info
     const [playerId, setPlayerId] = useState<string>('');
     const [playerPosition, setPlayerPosition] = useState({ x: 0, z: 0 });
@@ -67,14 +93,29 @@ const App: React.FC = () => {
     const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
     const [showLeaderboard, setShowLeaderboard] = useState(false);
     const [players, setPlayers] = useState<PlayerState[]>([]);
-    const [gameMode, setGameMode] = useState<'ffa' | 'team' | 'practice'>('ffa');
+    const [gameMode, setGameMode] = useState<GameMode | 'practice'>('ffa');
     const [teamScores, setTeamScores] = useState({ red: 0, blue: 0 });
+    const [match, setMatch] = useState<{ phase: MatchPhase; timeRemaining: number; scoreLimit: number } | null>(null);
+    const [matchResults, setMatchResults] = useState<{ results: MatchEndData; timeUntilNextRound: number } | null>(null);
     const [powerUps, setPowerUps] = useState<{ id: string; type: string; x: number; z: number; isActive: boolean }[]>([]);
-    const [targetStatus, setTargetStatus] = useState<{ name: string; health: number; maxHealth: number; shield: number } | null>(null);
+    const [targetStatus, setTargetStatus] = useState<{ name: string; health: number; maxHealth: number; shield: number; lockProgress: number } | null>(null);
+    const [missileWarning, setMissileWarning] = useState<{ incoming: number; attackerName: string | null }>({ incoming: 0, attackerName: null });
+    const [effects, setEffects] = useState<ActiveEffect[]>([]);
+    const [respawnIn, setRespawnIn] = useState(0);
+    const [spawnProtection, setSpawnProtection] = useState(0);
+    const [boundaryWarning, setBoundaryWarning] = useState<number | null>(null);
+    const [flags, setFlags] = useState<(FlagIndicator & { x: number; z: number })[]>([]);
+    const [zone, setZone] = useState<(ZoneIndicator & { x: number; z: number; radius: number }) | null>(null);
+    const [survival, setSurvival] = useState<SurvivalIndicator | null>(null);
+    const [elimination, setElimination] = useState<EliminationIndicator | null>(null);
+    const [spectator, setSpectator] = useState<SpectatorIndicator | null>(null);
+    const [practiceSettings, setPracticeSettings] = useState<PracticeSettings | null>(null);
+    const [showPracticeMenu, setShowPracticeMenu] = useState(false);
 
     // Refs
     const containerRef = useRef<HTMLDivElement>(null);
     const gameRef = useRef<SpaceGame | null>(null);
+    const lobbyRef = useRef<GameClient | null>(null);
 
     // Handle game callbacks
     const createGameCallbacks = useCallback((): GameCallbacks => ({
@@ -93,10 +134,17 @@ const App: React.FC = () => {
         onDeath: () => {
             setIsAlive(false);
             setTargetStatus(null);
+            setEffects([]);
         },
         onRespawn: () => {
             setIsAlive(true);
         },
+        onRoomError: (message) => {
+            gameRef.current?.dispose();
+            gameRef.current = null;
+            setError(message);
+            setGameState('menu');
+        },
         // Radar callbacks
         onPlayersUpdate: (playerList, localId) => {
             setPlayers(playerList);
@@ -112,6 +160,60 @@ const App: React.FC = () => {
         onTargetUpdate: (target) => {
             setTargetStatus(target);
         },
+        onEffectsUpdate: (activeEffects) => {
+            setEffects(activeEffects);
+        },
+        onRespawnTimer: (remaining) => {
+            setRespawnIn(remaining);
+        },
+        onSpawnProtection: (remaining) => {
+            setSpawnProtection(remaining);
+        },
+        onBoundaryWarning: (damageIn) => {
+            setBoundaryWarning(damageIn);
+        },
+        onMissileWarning: (incoming, attackerName) => {
+            setMissileWarning({ incoming, attackerName });
+        },
+        onMatchUpdate: (matchState, timeRemaining, scores) => {
+            // Practice rooms have no match clock
+            setMatch(matchState.phaseEndsAt > 0
+                ? { phase: matchState.phase, timeRemaining, scoreLimit: matchState.scoreLimit }
+                : null);
+            setTeamScores(scores);
+            if (matchState.phase !== 'postmatch') {
+                setMatchResults(null);
+            }
+        },
+        onMatchEnded: (results, timeUntilNextRound) => {
+            setMatchResults({ results, timeUntilNextRound });
+        },
+        onFlagsUpdate: (flagData) => {
+            setFlags(flagData);
+        },
+        onZoneUpdate: (zoneData) => {
+            setZone(zoneData);
+        },
+        onSurvivalUpdate: (survivalData) => {
+            setSurvival(survivalData);
+        },
+        onEliminationUpdate: (eliminationData) => {
+            setElimination(eliminationData);
+        },
+        onPracticeSettings: (settings) => {
+            setPracticeSettings(settings);
+        },
+        onSpectatorUpdate: (spectatorData) => {
+            setSpectator(spectatorData);
+        },
+        onFlagEvent: (event) => {
+            setChatMessages(prev => [...prev.slice(-49), {
+                playerName: 'System',
+                message: describeFlagEvent(event),
+                timestamp: Date.now(),
+                isSystem: true,
+            }]);
+        },
     }), []);
 
     // Handle game state updates
@@ -122,6 +224,35 @@ const App: React.FC = () => {
         }
     }, []);
 
+    // Keep a lobby connection open while the menu is showing to list rooms
+    useEffect(() => {
+        if (gameState !== 'menu') return;
+
+        const lobby = new GameClient();
+        lobbyRef.current = lobby;
+        lobby.onRoomList = (roomList) => setRooms(roomList);
+        lobby.onRoomCreated = (room) => setCreatedRoomId(room.id);
+        lobby.onRoomError = (message) => setError(message);
+        lobby.connect(SERVER_URL)
+            .then(() => lobby.requestRoomList())
+            .catch(() => {
+                // Server offline - quick join will report the error
+            });
+        fetch(`${SERVER_URL}/api/replays`)
+            .then(response => response.json())
+            .then((replayList: ReplayInfo[]) => setReplays(replayList))
+            .catch(() => setReplays([]));
+
+        return () => {
+            lobby.disconnect();
+            lobbyRef.current = null;
+        };
+    }, [gameState]);
+
+    const handleCreateRoom = (roomName: string, mode: GameMode, mapId: string) => {
+        lobbyRef.current?.createRoom(roomName, mode, mapId);
+    };
+
     // Handle keyboard for leaderboard
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -146,8 +277,28 @@ const App: React.FC = () => {
         };
     }, [gameState]);
 
+    // Practice menu on P (frees the mouse to click the settings)
+    useEffect(() => {
+        if (gameState !== 'playing' || gameMode !== 'practice') return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key.toLowerCase() !== 'p' || e.target instanceof HTMLInputElement) return;
+            setShowPracticeMenu(prev => {
+                if (!prev) document.exitPointerLock();
+                return !prev;
+            });
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [gameState, gameMode]);
+
+    const handlePracticeChange = (changes: Partial<PracticeSettings>) => {
+        gameRef.current?.updatePracticeSettings(changes);
+    };
+
     // Join game handler
-    const handleJoin = async (playerName: string, mode: 'ffa' | 'team' | 'practice', team?: 'red' | 'blue', shipColor?: string, arena?: string, botBehavior?: string) => {
+    const handleJoin = async (playerName: string, mode: GameMode | 'practice', roomId?: string, team?: 'red' | 'blue', shipColor?: string, mapId?: string, botBehavior?: string, botDifficulty?: BotDifficulty, botCount?: number) => {
         if (!containerRef.current) return;
 
         setIsConnecting(true);
@@ -155,12 +306,12 @@ const App: React.FC = () => {
         setGameMode(mode);
 
         try {
-            // Create game instance with ship color and arena
-            const game = new SpaceGame(containerRef.current, createGameCallbacks(), shipColor, arena as any);
+            // Create game instance with ship color (the server picks the map)
+            const game = new SpaceGame(containerRef.current, createGameCallbacks(), shipColor);
             gameRef.current = game;
 
-            // Connect to server with game mode and bot behavior
-            await game.connect(SERVER_URL, playerName, team, mode, botBehavior);
+            // Connect to server with target room, game mode and practice map and bot options
+            await game.connect(SERVER_URL, playerName, roomId, team, mode, mapId, botBehavior, botDifficulty, botCount);
 
             // Start game loop
             game.start();
@@ -184,6 +335,71 @@ const App: React.FC = () => {
         }
     };
 
+    // Watch a match without a ship
+    const handleSpectate = async (mode: GameMode, roomId?: string) => {
+        if (!containerRef.current) return;
+
+        setIsConnecting(true);
+        setError(undefined);
+        setGameMode(mode);
+
+        try {
+            const game = new SpaceGame(containerRef.current, createGameCallbacks());
+            gameRef.current = game;
+            await game.spectate(SERVER_URL, roomId, mode);
+            game.start();
+            setGameState('playing');
+        } catch (err) {
+            console.error('Failed to connect:', err);
+            setError('Failed to connect to server. Make sure the server is running on port 3001.');
+            gameRef.current?.dispose();
+            gameRef.current = null;
+        } finally {
+            setIsConnecting(false);
+        }
+    };
+
+    // Play back a recorded match through the game view
+    const handleWatchReplay = async (replayId: string) => {
+        if (!containerRef.current) return;
+
+        setIsConnecting(true);
+        setError(undefined);
+
+        try {
+            const response = await fetch(`${SERVER_URL}/api/replays/${encodeURIComponent(replayId)}`);
+            if (!response.ok) throw new Error(`Replay request failed: ${response.status}`);
+            const replay: ReplayData = await response.json();
+
+            const player = new ReplayPlayer(replay);
+            const game = new SpaceGame(containerRef.current, createGameCallbacks(), undefined, player, player.clock);
+            gameRef.current = game;
+            game.start();
+            player.start();
+
+            setGameMode(replay.info.gameMode);
+            setReplayPlayer(player);
+            setGameState('playing');
+        } catch (err) {
+            console.error('Failed to load replay:', err);
+            setError('Failed to load the replay.');
+            gameRef.current?.dispose();
+            gameRef.current = null;
+        } finally {
+            setIsConnecting(false);
+        }
+    };
+
+    const handleExitReplay = () => {
+        gameRef.current?.dispose();
+        gameRef.current = null;
+        setReplayPlayer(null);
+        setMatchResults(null);
+        setKillFeed([]);
+        setChatMessages([]);
+        setGameState('menu');
+    };
+
     // Send chat message
     const handleSendChat = (message: string) => {
         gameRef.current?.sendChatMessage(message);
@@ -205,6 +421,12 @@ const App: React.FC = () => {
             {gameState === 'menu' && (
                 <MainMenu
                     onJoin={handleJoin}
+                    onSpectate={handleSpectate}
+                    replays={replays}
+                    onWatchReplay={handleWatchReplay}
+                    onCreateRoom={handleCreateRoom}
+                    rooms={rooms}
+                    createdRoomId={createdRoomId}
                     isConnecting={isConnecting}
                     error={error}
                 />
@@ -213,17 +435,37 @@ const App: React.FC = () => {
             {/* In-game UI */}
             {gameState === 'playing' && (
                 <>
-                    <GameHUD
-                        health={stats.health}
-                        maxHealth={stats.maxHealth}
-                        shield={stats.shield}
-                        score={stats.score}
-                        kills={stats.kills}
-                        deaths={stats.deaths}
-                        isAlive={isAlive}
-                        killFeed={killFeed}
-                        targetStatus={targetStatus}
-                    />
+                    {matchResults ? (
+                        <MatchResults
+                            results={matchResults.results}
+                            localPlayerId={playerId}
+                            gameMode={gameMode}
+                            timeUntilNextRound={matchResults.timeUntilNextRound}
+                        />
+                    ) : (
+                        <GameHUD
+                            health={stats.health}
+                            maxHealth={stats.maxHealth}
+                            shield={stats.shield}
+                            score={stats.score}
+                            kills={stats.kills}
+                            deaths={stats.deaths}
+                            isAlive={isAlive}
+                            killFeed={killFeed}
+                            targetStatus={targetStatus}
+                            effects={effects}
+                            respawnIn={respawnIn}
+                            spawnProtection={spawnProtection}
+                            boundaryWarning={boundaryWarning}
+                            missileWarning={missileWarning}
+                            match={match}
+                            flags={flags}
+                            zone={zone}
+                            survival={survival}
+                            elimination={elimination}
+                            spectator={spectator}
+                        />
+                    )}
 
                     <Minimap
                         players={players.map(p => ({
@@ -235,6 +477,8 @@ const App: React.FC = () => {
                             isAlive: p.isAlive,
                         }))}
                         powerUps={powerUps}
+                        flags={flags}
+                        zone={zone}
                         playerPosition={playerPosition}
                         playerRotation={playerRotation}
                         localPlayerId={playerId}
@@ -254,7 +498,19 @@ const App: React.FC = () => {
                         isVisible={true}
                     />
 
-                    <ControlsPanel />
+                    {showPracticeMenu && practiceSettings && (
+                        <PracticeMenu
+                            settings={practiceSettings}
+                            onChange={handlePracticeChange}
+                            onClose={() => setShowPracticeMenu(false)}
+                        />
+                    )}
+
+                    {replayPlayer && (
+                        <ReplayControls player={replayPlayer} onExit={handleExitReplay} />
+                    )}
+
+                    <ControlsPanel isPractice={gameMode === 'practice'} />
                 </>
             )}
         </div>
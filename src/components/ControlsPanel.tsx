@@ -4,7 +4,11 @@
 
 import React from 'react';
 
-export const ControlsPanel: React.FC = () => {
+interface ControlsPanelProps {
+    isPractice?: boolean;
+}
+
+export const ControlsPanel: React.FC<ControlsPanelProps> = ({ isPractice }) => {
     return (
         <div style={{
             position: 'fixed',
@@ -40,6 +44,9 @@ export const ControlsPanel: React.FC = () => {
                     <Row keys="Space" action="Up" />
                     <Row keys="Shift" action="Down" />
                     <Row keys="B" action="Boost" highlight />
+                    <Row keys="F" action="Flares" />
+                    <Row keys="H" action="Hitboxes" />
+                    {isPractice && <Row keys="P" action="Practice menu" highlight />}
                 </tbody>
             </table>
         </div>
@@ -4,6 +4,78 @@
  */
 
 import React from 'react';
+import { StatusEffectType, MatchPhase, FlagStatus } from '../../shared/Protocol';
+import { SpectatorMode } from '../game/SpectatorCamera';
+
+export interface ActiveEffect {
+    type: StatusEffectType;
+    remaining: number; // ms
+    duration: number;  // ms
+}
+
+// Capture-the-flag status of one team's flag
+export interface FlagIndicator {
+    team: 'red' | 'blue';
+    status: FlagStatus;
+    carrierName: string | null;
+    isLocalCarrier: boolean;
+    timeUntilReturn: number; // ms, while dropped
+}
+
+// King-of-the-hill zone status, relative to the local player's side
+export interface ZoneIndicator {
+    ownerName: string | null;
+    isOwner: boolean;
+    capturingName: string | null;
+    isCapturing: boolean;
+    progress: number;        // 0..1 capture progress
+    contested: boolean;
+    points: number;          // Our side's zone points
+    leaderPoints: number;
+    timeUntilMove: number;   // ms
+}
+
+// Survival run progress
+export interface SurvivalIndicator {
+    wave: number;
+    phase: 'rest' | 'wave';
+    timeUntilNextWave: number; // ms, while resting
+    botsRemaining: number;
+}
+
+// Elimination round status, relative to the local player's side
+export interface EliminationIndicator {
+    round: number;
+    roundsToWin: number;
+    phase: 'fighting' | 'intermission';
+    waiting: boolean;        // No opponents yet
+    aliveAllies: number;     // Includes us while alive
+    aliveEnemies: number;
+    wins: number;            // Rounds our side has won
+    bestEnemyWins: number;
+    roundWinnerName: string | null;
+    isRoundWinner: boolean;
+    timeRemaining: number;   // ms until the round times out, or until the next round
+}
+
+// Spectator camera status, for spectators and players out of an elimination round
+export interface SpectatorIndicator {
+    mode: SpectatorMode;
+    targetName: string | null; // Ship being followed
+    isSpectator: boolean;      // Joined to watch rather than play
+}
+
+const SPECTATOR_MODE_LABELS: Record<SpectatorMode, string> = {
+    follow: 'FOLLOWING',
+    free: 'FREE CAMERA',
+    overview: 'OVERVIEW',
+};
+
+const EFFECT_DISPLAY: Record<StatusEffectType, { icon: string; label: string; color: string }> = {
+    speed: { icon: '⚡', label: 'SPEED', color: '#facc15' },
+    rapidfire: { icon: '🔥', label: 'RAPID FIRE', color: '#fb923c' },
+    damage: { icon: '💥', label: 'DAMAGE', color: '#f43f5e' },
+};
 
 interface HUDProps {
     health: number;
@@ -14,7 +86,58 @@ interface HUDProps {
     deaths: number;
     isAlive: boolean;
     killFeed: { killerName: string; victimName: string; weapon: string; timestamp: number }[];
-    targetStatus: { name: string; health: number; maxHealth: number; shield: number } | null;
+    targetStatus: { name: string; health: number; maxHealth: number; shield: number; lockProgress: number } | null;
+    effects: ActiveEffect[];
+    respawnIn: number;       // ms until respawning is allowed
+    spawnProtection: number; // ms of spawn protection left
+    boundaryWarning: number | null; // ms until out-of-bounds damage, null inside the combat zone
+    missileWarning: { incoming: number; attackerName: string | null };
+    match: { phase: MatchPhase; timeRemaining: number; scoreLimit: number } | null;
+    flags: FlagIndicator[];
+    zone: ZoneIndicator | null;
+    survival: SurvivalIndicator | null;
+    elimination: EliminationIndicator | null;
+    spectator: SpectatorIndicator | null;
+}
+
+const PHASE_LABELS: Record<MatchPhase, string> = {
+    warmup: 'WARMUP',
+    live: '',
+    overtime: 'OVERTIME',
+    postmatch: 'MATCH OVER',
+};
+
+function describeFlag(flag: FlagIndicator): string {
+    switch (flag.status) {
+        case 'home':
+            return 'HOME';
+        case 'carried':
+            return flag.isLocalCarrier ? 'YOU' : (flag.carrierName ?? 'TAKEN');
+        case 'dropped':
+            return `DROPPED ${Math.ceil(flag.timeUntilReturn / 1000)}s`;
+    }
+}
+
+function describeZone(zone: ZoneIndicator): { label: string; color: string } {
+    if (zone.contested) return { label: 'CONTESTED', color: '#fb923c' };
+    if (zone.capturingName) {
+        return zone.isCapturing
+            ? { label: 'CAPTURING...', color: '#4ade80' }
+            : { label: `${zone.capturingName} CAPTURING`, color: '#f87171' };
+    }
+    if (zone.ownerName) {
+        return zone.isOwner
+            ? { label: 'ZONE HELD', color: '#4ade80' }
+            : { label: `HELD BY ${zone.ownerName}`, color: '#f87171' };
+    }
+    return { label: 'NEUTRAL ZONE', color: '#d1d5db' };
+}
+
+function formatClock(ms: number): string {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
 
 export const GameHUD: React.FC<HUDProps> = ({
@@ -27,6 +150,17 @@ export const GameHUD: React.FC<HUDProps> = ({
     isAlive,
     killFeed,
     targetStatus,
+    effects,
+    respawnIn,
+    spawnProtection,
+    boundaryWarning,
+    missileWarning,
+    match,
+    flags,
+    zone,
+    survival,
+    elimination,
+    spectator,
 }) => {
     const healthPercent = (health / maxHealth) * 100;
     const shieldPercent = (shield / 50) * 100;
@@ -34,44 +168,77 @@ export const GameHUD: React.FC<HUDProps> = ({
     return (
         <>
             {/* Health & Shield Bars - Bottom Left */}
-            <div className="fixed bottom-6 left-6 z-40 pointer-events-none">
-                <div className="flex flex-col gap-2">
-                    {/* Shield Bar */}
-                    <div className="w-64">
-                        <div className="flex justify-between text-xs text-cyan-400 mb-1 font-mono">
-                            <span>SHIELD</span>
-                            <span>{Math.round(shield)}</span>
-                        </div>
-                        <div className="h-3 bg-gray-900/80 rounded-full border border-cyan-500/50 overflow-hidden">
-                            <div
-                                className="h-full bg-gradient-to-r from-cyan-500 to-cyan-300 transition-all duration-200"
-                                style={{ width: `${shieldPercent}%` }}
-                            />
-                        </div>
-                    </div>
+            {!spectator?.isSpectator && (
+                <div className="fixed bottom-6 left-6 z-40 pointer-events-none">
+                    <div className="flex flex-col gap-2">
+                        {/* Active Power-Ups */}
+                        {effects.length > 0 && (
+                            <div className="flex gap-2 mb-1">
+                                {effects.map(effect => {
+                                    const display = EFFECT_DISPLAY[effect.type];
+                                    return (
+                                        <div
+                                            key={effect.type}
+                                            className="bg-gray-900/80 rounded-lg px-2 py-1 font-mono text-xs border"
+                                            style={{ borderColor: display.color, color: display.color }}
+                                        >
+                                            <div className="flex items-center gap-1">
+                                                <span>{display.icon}</span>
+                                                <span>{display.label}</span>
+                                                <span className="text-white">{Math.ceil(effect.remaining / 1000)}s</span>
+                                            </div>
+                                            <div className="h-1 mt-1 bg-gray-700 rounded-full overflow-hidden">
+                                                <div
+                                                    className="h-full"
+                                                    style={{
+                                                        width: `${(effect.remaining / effect.duration) * 100}%`,
+                                                        background: display.color,
+                                                    }}
+                                                />
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
 
-                    {/* Health Bar */}
-                    <div className="w-64">
-                        <div className="flex justify-between text-xs text-pink-400 mb-1 font-mono">
-                            <span>HULL</span>
-                            <span>{Math.round(health)}</span>
+                        {/* Shield Bar */}
+                        <div className="w-64">
+                            <div className="flex justify-between text-xs text-cyan-400 mb-1 font-mono">
+                                <span>SHIELD</span>
+                                <span>{Math.round(shield)}</span>
+                            </div>
+                            <div className="h-3 bg-gray-900/80 rounded-full border border-cyan-500/50 overflow-hidden">
+                                <div
+                                    className="h-full bg-gradient-to-r from-cyan-500 to-cyan-300 transition-all duration-200"
+                                    style={{ width: `${shieldPercent}%` }}
+                                />
+                            </div>
                         </div>
-                        <div className="h-4 bg-gray-900/80 rounded-full border border-pink-500/50 overflow-hidden">
-                            <div
-                                className="h-full transition-all duration-200"
-                                style={{
-                                    width: `${healthPercent}%`,
-                                    background: healthPercent > 50
-                                        ? 'linear-gradient(90deg, #ec4899, #f472b6)'
-                                        : healthPercent > 25
-                                            ? 'linear-gradient(90deg, #f59e0b, #fbbf24)'
-                                            : 'linear-gradient(90deg, #ef4444, #f87171)',
-                                }}
-                            />
+
+                        {/* Health Bar */}
+                        <div className="w-64">
+                            <div className="flex justify-between text-xs text-pink-400 mb-1 font-mono">
+                                <span>HULL</span>
+                                <span>{Math.round(health)}</span>
+                            </div>
+                            <div className="h-4 bg-gray-900/80 rounded-full border border-pink-500/50 overflow-hidden">
+                                <div
+                                    className="h-full transition-all duration-200"
+                                    style={{
+                                        width: `${healthPercent}%`,
+                                        background: healthPercent > 50
+                                            ? 'linear-gradient(90deg, #ec4899, #f472b6)'
+                                            : healthPercent > 25
+                                                ? 'linear-gradient(90deg, #f59e0b, #fbbf24)'
+                                                : 'linear-gradient(90deg, #ef4444, #f87171)',
+                                    }}
+                                />
+                            </div>
                         </div>
                     </div>
                 </div>
-            </div>
+            )}
 
             {/* Target Status - Left Center */}
             {targetStatus && (
@@ -107,13 +274,84 @@ export const GameHUD: React.FC<HUDProps> = ({
                                 />
                             </div>
                         </div>
+
+                        {/* Missile Lock-On */}
+                        {targetStatus.lockProgress > 0 && (
+                            <div className="mt-3">
+                                <div className="flex justify-between text-xs text-orange-400 mb-1 font-mono">
+                                    <span>{targetStatus.lockProgress >= 1 ? 'MISSILE LOCKED' : 'LOCKING...'}</span>
+                                    <span>{Math.round(targetStatus.lockProgress * 100)}%</span>
+                                </div>
+                                <div className="h-2 bg-gray-800 rounded-full border border-orange-500/30 overflow-hidden">
+                                    <div
+                                        className={`h-full ${targetStatus.lockProgress >= 1 ? 'bg-orange-400 animate-pulse' : 'bg-orange-600'}`}
+                                        style={{ width: `${targetStatus.lockProgress * 100}%` }}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Incoming Missile Warning - Center */}
+            {missileWarning.incoming > 0 && isAlive && (
+                <div className="fixed top-1/3 left-1/2 -translate-x-1/2 z-40 pointer-events-none text-center animate-pulse">
+                    <div className="text-2xl font-bold text-red-500 font-mono tracking-widest">
+                        ⚠ MISSILE LOCK{missileWarning.incoming > 1 ? ` x${missileWarning.incoming}` : ''}
+                    </div>
+                    {missileWarning.attackerName && (
+                        <div className="text-sm text-red-300 font-mono">from {missileWarning.attackerName}</div>
+                    )}
+                    <div className="text-xs text-gray-300 font-mono mt-1">F: FLARES · B: BOOST TO DODGE</div>
+                </div>
+            )}
+
+            {/* Spawn Protection - Below Crosshair */}
+            {spawnProtection > 0 && isAlive && (
+                <div className="fixed top-[58%] left-1/2 -translate-x-1/2 z-40 pointer-events-none text-center font-mono">
+                    <div className="text-sm font-bold text-cyan-300 tracking-widest">
+                        🛡 SPAWN PROTECTION {Math.ceil(spawnProtection / 1000)}s
+                    </div>
+                    <div className="text-xs text-gray-400">FIRING ENDS IT</div>
+                </div>
+            )}
+
+            {/* Out of Bounds - Below Crosshair */}
+            {boundaryWarning !== null && isAlive && (
+                <div className="fixed top-[66%] left-1/2 -translate-x-1/2 z-40 pointer-events-none text-center font-mono">
+                    <div className="bg-red-900/60 backdrop-blur-sm border-2 border-red-500 rounded-lg px-6 py-3 animate-pulse">
+                        <div className="text-xl font-bold text-red-300 tracking-widest">⚠ RETURN TO COMBAT ZONE</div>
+                        <div className="text-sm text-red-200">
+                            {boundaryWarning > 0
+                                ? `HULL DAMAGE IN ${Math.ceil(boundaryWarning / 1000)}`
+                                : 'TAKING HULL DAMAGE'}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Flag Carrier Banner - Center */}
+            {flags.some(flag => flag.isLocalCarrier) && isAlive && (
+                <div className="fixed top-1/4 left-1/2 -translate-x-1/2 z-40 pointer-events-none text-center">
+                    <div className="text-xl font-bold text-yellow-300 font-mono tracking-widest animate-pulse">
+                        ⚑ YOU HAVE THE FLAG
                     </div>
+                    <div className="text-xs text-gray-300 font-mono mt-1">RETURN TO YOUR BASE TO CAPTURE</div>
                 </div>
             )}
 
             {/* Score Display - Top Center */}
             <div className="fixed top-6 left-1/2 -translate-x-1/2 z-40 pointer-events-none">
                 <div className="bg-gray-900/80 backdrop-blur-sm border border-purple-500/50 rounded-lg px-6 py-3 text-center">
+                    {/* Match Clock */}
+                    {match && (
+                        <div className={`text-sm font-mono mb-1 ${match.phase === 'overtime' ? 'text-red-400 animate-pulse' : match.phase === 'warmup' ? 'text-yellow-400' : 'text-gray-300'}`}>
+                            {PHASE_LABELS[match.phase] && <span className="mr-2">{PHASE_LABELS[match.phase]}</span>}
+                            <span>{formatClock(match.timeRemaining)}</span>
+                            {match.phase !== 'warmup' && <span className="text-gray-500 ml-2">/ {match.scoreLimit}</span>}
+                        </div>
+                    )}
                     <div className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-pink-500 font-mono">
                         {score.toLocaleString()}
                     </div>
@@ -122,6 +360,83 @@ export const GameHUD: React.FC<HUDProps> = ({
                         <span className="text-red-400">D: {deaths}</span>
                         <span className="text-yellow-400">K/D: {deaths > 0 ? (kills / deaths).toFixed(2) : kills}</span>
                     </div>
+                    {/* Flag Status */}
+                    {flags.length > 0 && (
+                        <div className="flex gap-4 justify-center text-xs font-mono mt-2">
+                            {flags.map(flag => (
+                                <span
+                                    key={flag.team}
+                                    className={`${flag.team === 'red' ? 'text-red-400' : 'text-blue-400'} ${flag.status !== 'home' ? 'animate-pulse' : ''}`}
+                                >
+                                    ⚑ {describeFlag(flag)}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {/* Control Zone */}
+                    {zone && (() => {
+                        const status = describeZone(zone);
+                        const fill = zone.capturingName ? zone.progress : zone.ownerName ? 1 : 0;
+                        return (
+                            <div className="w-56 mt-2 text-xs font-mono">
+                                <div className="flex justify-between mb-1">
+                                    <span style={{ color: status.color }}>{status.label}</span>
+                                    <span className="text-gray-400">MOVES {formatClock(zone.timeUntilMove)}</span>
+                                </div>
+                                <div className="h-2 bg-gray-800 rounded-full border border-yellow-500/30 overflow-hidden">
+                                    <div
+                                        className={`h-full transition-all duration-200 ${zone.contested ? 'animate-pulse' : ''}`}
+                                        style={{ width: `${fill * 100}%`, background: status.color }}
+                                    />
+                                </div>
+                                <div className="flex justify-between mt-1 text-gray-400">
+                                    <span>ZONE: <span className="text-white">{zone.points}</span></span>
+                                    <span>LEADER: {zone.leaderPoints}</span>
+                                </div>
+                            </div>
+                        );
+                    })()}
+                    {/* Elimination Round */}
+                    {elimination && (
+                        <div className="w-56 mt-2 text-xs font-mono">
+                            <div className="flex justify-between mb-1">
+                                <span className="text-gray-300">ROUND {elimination.round}</span>
+                                <span className="text-gray-400">{formatClock(elimination.timeRemaining)}</span>
+                            </div>
+                            {elimination.waiting ? (
+                                <div className="text-sm text-yellow-400">WAITING FOR OPPONENTS</div>
+                            ) : elimination.phase === 'fighting' ? (
+                                <div className="text-sm">
+                                    <span className="text-green-400 font-bold">{elimination.aliveAllies}</span>
+                                    <span className="text-gray-500 mx-2">ALIVE VS</span>
+                                    <span className="text-red-400 font-bold">{elimination.aliveEnemies}</span>
+                                </div>
+                            ) : (
+                                <div className={`text-sm font-bold ${elimination.isRoundWinner ? 'text-green-400' : elimination.roundWinnerName ? 'text-red-400' : 'text-gray-300'}`}>
+                                    {elimination.isRoundWinner ? 'ROUND WON' : elimination.roundWinnerName ? `${elimination.roundWinnerName} TAKES THE ROUND` : 'ROUND DRAWN'}
+                                </div>
+                            )}
+                            <div className="flex justify-between mt-1 text-gray-400">
+                                <span>WINS: <span className="text-white">{elimination.wins}</span> - {elimination.bestEnemyWins}</span>
+                                <span>FIRST TO {elimination.roundsToWin}</span>
+                            </div>
+                        </div>
+                    )}
+                    {/* Survival Wave */}
+                    {survival && (
+                        <div className="mt-2 text-xs font-mono">
+                            {survival.phase === 'wave' ? (
+                                <>
+                                    <span className="text-red-400 font-bold">WAVE {survival.wave}</span>
+                                    <span className="text-gray-400 ml-3">HOSTILES: <span className="text-white">{survival.botsRemaining}</span></span>
+                                </>
+                            ) : (
+                                <span className="text-green-400">
+                                    {survival.wave > 0 ? `WAVE ${survival.wave} CLEARED · ` : ''}WAVE {survival.wave + 1} IN {Math.ceil(survival.timeUntilNextWave / 1000)}s
+                                </span>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -147,16 +462,48 @@ export const GameHUD: React.FC<HUDProps> = ({
                 </div>
             </div>
 
+            {/* Spectator Banner - Bottom Center */}
+            {spectator && (
+                <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-40 pointer-events-none text-center font-mono">
+                    <div className={`text-sm font-bold tracking-widest ${spectator.isSpectator ? 'text-cyan-400' : 'text-red-400'}`}>
+                        {spectator.isSpectator ? '👁 SPECTATING' : 'ELIMINATED'}
+                    </div>
+                    <div className="text-xl text-white font-bold">
+                        {SPECTATOR_MODE_LABELS[spectator.mode]}
+                        {spectator.mode === 'follow' && spectator.targetName && <span className="text-pink-400 ml-2">{spectator.targetName}</span>}
+                    </div>
+                    {!spectator.isSpectator && elimination?.waiting ? (
+                        <div className="text-sm text-gray-300 mt-1">
+                            Press <span className="text-cyan-400 font-bold">SPACE</span> to respawn
+                        </div>
+                    ) : (
+                        <div className="text-xs text-gray-400 mt-1">
+                            Click next pilot • Right-click previous • V camera mode{spectator.mode === 'free' ? ' • WASD/Space/Shift fly • B fast' : ''}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Death Screen */}
-            {!isAlive && (
+            {!isAlive && !spectator && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm pointer-events-none">
                     <div className="text-center">
                         <div className="text-6xl font-bold text-red-500 mb-4 animate-pulse">
                             DESTROYED
                         </div>
-                        <div className="text-xl text-gray-300 font-mono">
-                            Press <span className="text-cyan-400 font-bold">SPACE</span> to respawn
-                        </div>
+                        {survival?.phase === 'wave' ? (
+                            <div className="text-xl text-gray-300 font-mono">
+                                Your squad must clear <span className="text-red-400 font-bold">WAVE {survival.wave}</span> to bring you back
+                            </div>
+                        ) : respawnIn > 0 ? (
+                            <div className="text-xl text-gray-300 font-mono">
+                                Respawn in <span className="text-cyan-400 font-bold">{Math.ceil(respawnIn / 1000)}</span>
+                            </div>
+                        ) : (
+                            <div className="text-xl text-gray-300 font-mono">
+                                Press <span className="text-cyan-400 font-bold">SPACE</span> to respawn
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
@@ -4,6 +4,17 @@
  */
 
 import React from 'react';
+import { GameMode, isTeamMode } from '../../shared/Protocol';
+
+const MODE_TITLES: Record<GameMode | 'practice', string> = {
+    ffa: 'FREE FOR ALL',
+    team: 'TEAM BATTLE',
+    ctf: 'CAPTURE THE FLAG',
+    koth: 'KING OF THE HILL',
+    survival: 'SURVIVAL',
+    elimination: 'ELIMINATION',
+    practice: 'FREE FOR ALL',
+};
 
 interface LeaderboardPlayer {
     id: string;
@@ -12,13 +23,14 @@ interface LeaderboardPlayer {
     kills: number;
     deaths: number;
     team: 'red' | 'blue' | null;
+    isBot: boolean;
     isAlive: boolean;
 }
 
 interface LeaderboardProps {
     players: LeaderboardPlayer[];
     localPlayerId: string;
-    gameMode: 'ffa' | 'team' | 'practice';
+    gameMode: GameMode | 'practice';
     teamScores?: { red: number; blue: number };
     isVisible: boolean;
 }
@@ -33,6 +45,7 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
     if (!isVisible) return null;
 
     const sortedPlayers = [...players].sort((a, b) => b.score - a.score);
+    const teamMode = gameMode !== 'practice' && isTeamMode(gameMode);
 
     // For team mode, separate teams
     const redTeam = sortedPlayers.filter(p => p.team === 'red');
@@ -42,11 +55,11 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
         <div className="fixed inset-0 z-50 flex items-center justify-center pointer-events-none">
             <div className="bg-gray-900/95 backdrop-blur-md border border-purple-500/50 rounded-xl p-6 min-w-96 max-h-[80vh] overflow-auto">
                 <h2 className="text-2xl font-bold text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-pink-500 mb-4">
-                    {gameMode === 'team' ? 'TEAM BATTLE' : 'FREE FOR ALL'}
+                    {MODE_TITLES[gameMode]}
                 </h2>
 
                 {/* Team Scores */}
-                {gameMode === 'team' && teamScores && (
+                {teamMode && teamScores && (
                     <div className="flex justify-center gap-8 mb-6">
                         <div className="text-center">
                             <div className="text-red-400 text-sm font-mono">RED TEAM</div>
@@ -60,7 +73,7 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
                     </div>
                 )}
 
-                {gameMode === 'team' ? (
+                {teamMode ? (
                     <div className="flex gap-4">
                         {/* Red Team */}
                         <div className="flex-1">
@@ -121,6 +134,7 @@ const PlayerTable: React.FC<PlayerTableProps> = ({ players, localPlayerId, teamC
                             <td className="py-2 px-2 text-gray-500">{index + 1}</td>
                             <td className={`py-2 px-2 ${isLocal ? 'text-cyan-400 font-bold' : textColor}`}>
                                 {player.name}
+                                {player.isBot && <span className="text-xs text-gray-500 ml-1">[BOT]</span>}
                                 {isLocal && <span className="text-xs text-gray-500 ml-1">(you)</span>}
                             </td>
                             <td className="py-2 px-2 text-center text-yellow-400">{player.score}</td>
@@ -4,6 +4,8 @@
  */
 
 import React, { useState } from 'react';
+import { RoomInfo, ReplayInfo, GameMode, BotDifficulty, BOT_DIFFICULTIES, isTeamMode } from '../../shared/Protocol';
+import { ARENA_MAPS, DEFAULT_MAP_ID, getArenaMap } from '../../shared/ArenaMaps';
 
 // Ship color presets
 const SHIP_COLORS = [
@@ -17,36 +19,72 @@ const SHIP_COLORS = [
     { name: 'Arctic Cyan', hex: '#22cccc' },
 ];
 
-// Arena options
-const ARENAS = [
-    { id: 'solar', name: 'Solar System', icon: '☀️' },
-    { id: 'earth', name: 'Earth Orbit', icon: '🌍' },
-    { id: 'mars', name: 'Mars Station', icon: '🔴' },
-    { id: 'jupiter', name: 'Jupiter Storm', icon: '🟤' },
+// Practice bot options
+const BOT_COUNTS = [1, 3, 5, 8];
+
+// Game mode options
+const GAME_MODES: { id: GameMode | 'practice'; name: string; icon: string; gradient: string; border: string }[] = [
+    { id: 'practice', name: 'PRACTICE', icon: '🎯', gradient: 'linear-gradient(135deg, #22aa44, #44cc66)', border: '#44ff88' },
+    { id: 'ffa', name: 'FREE FOR ALL', icon: '⚔️', gradient: 'linear-gradient(135deg, #0088cc, #00aaff)', border: '#00ccff' },
+    { id: 'team', name: 'TEAM BATTLE', icon: '👥', gradient: 'linear-gradient(135deg, #8800cc, #aa44ff)', border: '#aa66ff' },
+    { id: 'ctf', name: 'CAPTURE THE FLAG', icon: '🚩', gradient: 'linear-gradient(135deg, #cc6600, #ff9922)', border: '#ffaa44' },
+    { id: 'koth', name: 'KING OF THE HILL', icon: '👑', gradient: 'linear-gradient(135deg, #aa8800, #ddbb22)', border: '#ffdd44' },
+    { id: 'elimination', name: 'ELIMINATION', icon: '💀', gradient: 'linear-gradient(135deg, #444455, #777788)', border: '#aaaacc' },
+    { id: 'survival', name: 'SURVIVAL', icon: '🛡️', gradient: 'linear-gradient(135deg, #aa2222, #dd4444)', border: '#ff6666' },
 ];
 
 interface MainMenuProps {
-    onJoin: (playerName: string, gameMode: 'ffa' | 'team' | 'practice', team?: 'red' | 'blue', shipColor?: string, arena?: string, botBehavior?: string) => void;
+    onJoin: (playerName: string, gameMode: GameMode | 'practice', roomId?: string, team?: 'red' | 'blue', shipColor?: string, mapId?: string, botBehavior?: string, botDifficulty?: BotDifficulty, botCount?: number) => void;
+    onCreateRoom: (roomName: string, gameMode: GameMode, mapId: string) => void;
+    onSpectate: (gameMode: GameMode, roomId?: string) => void;
+    replays: ReplayInfo[];
+    onWatchReplay: (replayId: string) => void;
+    rooms: RoomInfo[];
+    createdRoomId?: string;
     isConnecting: boolean;
     error?: string;
 }
 
-export const MainMenu: React.FC<MainMenuProps> = ({ onJoin, isConnecting, error }) => {
+export const MainMenu: React.FC<MainMenuProps> = ({ onJoin, onCreateRoom, onSpectate, replays, onWatchReplay, rooms, createdRoomId, isConnecting, error }) => {
     const [playerName, setPlayerName] = useState('');
-    const [gameMode, setGameMode] = useState<'ffa' | 'team' | 'practice'>('ffa');
+    const [gameMode, setGameMode] = useState<GameMode | 'practice'>('ffa');
     const [team, setTeam] = useState<'red' | 'blue'>('red');
+    const [flySolo, setFlySolo] = useState(true); // King of the hill only
     const [selectedColor, setSelectedColor] = useState(0);
     const [customColor, setCustomColor] = useState('#2266cc');
     const [useCustom, setUseCustom] = useState(false);
-    const [arena, setArena] = useState('solar');
+    const [mapId, setMapId] = useState(DEFAULT_MAP_ID); // For practice and new rooms; joined rooms bring their own
     const [botBehavior, setBotBehavior] = useState<'aggressive' | 'passive'>('aggressive');
+    const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('normal');
+    const [botCount, setBotCount] = useState(3);
+    const [selectedRoomId, setSelectedRoomId] = useState<string | undefined>();
 
     const shipColor = useCustom ? customColor : SHIP_COLORS[selectedColor].hex;
+    // King of the hill and elimination can be played on a team or solo
+    const soloAllowed = gameMode === 'koth' || gameMode === 'elimination';
+    const pickTeam = soloAllowed || (gameMode !== 'practice' && isTeamMode(gameMode));
+    const joinTeam = pickTeam && !(soloAllowed && flySolo) ? team : undefined;
+
+    // Open matches for the selected mode; a freshly created room is picked automatically
+    const openRooms = rooms.filter(r => r.gameMode === gameMode);
+    const activeRoomId = openRooms.some(r => r.id === selectedRoomId)
+        ? selectedRoomId
+        : openRooms.find(r => r.id === createdRoomId)?.id;
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (playerName.trim().length < 2) return;
-        onJoin(playerName.trim(), gameMode, gameMode === 'team' ? team : undefined, shipColor, arena, gameMode === 'practice' ? botBehavior : undefined);
+        if (gameMode === 'practice') {
+            onJoin(playerName.trim(), gameMode, undefined, joinTeam, shipColor, mapId, botBehavior, botDifficulty, botCount);
+        } else {
+            onJoin(playerName.trim(), gameMode, activeRoomId, joinTeam, shipColor);
+        }
+    };
+
+    const handleCreateRoom = () => {
+        if (gameMode === 'practice') return;
+        const hostName = playerName.trim() || 'Pilot';
+        onCreateRoom(`${hostName}'s Match`, gameMode, mapId);
     };
 
     return (
@@ -188,25 +226,25 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onJoin, isConnecting, error
                     {/* Battleground */}
                     <div style={{ marginBottom: '20px' }}>
                         <label style={{ display: 'block', color: '#00cccc', fontSize: '11px', marginBottom: '8px' }}>
-                            BATTLEGROUND
+                            BATTLEGROUND <span style={{ color: '#666' }}>(PRACTICE & NEW ROOMS)</span>
                         </label>
                         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '8px' }}>
-                            {ARENAS.map((a) => (
+                            {ARENA_MAPS.map((a) => (
                                 <button
                                     key={a.id}
                                     type="button"
-                                    onClick={() => setArena(a.id)}
+                                    onClick={() => setMapId(a.id)}
                                     style={{
                                         padding: '12px 8px',
-                                        background: arena === a.id ? 'linear-gradient(135deg, rgba(0,255,255,0.2), rgba(128,0,255,0.2))' : 'rgba(30,40,60,0.6)',
-                                        border: arena === a.id ? '2px solid #00cccc' : '1px solid rgba(255,255,255,0.1)',
+                                        background: mapId === a.id ? 'linear-gradient(135deg, rgba(0,255,255,0.2), rgba(128,0,255,0.2))' : 'rgba(30,40,60,0.6)',
+                                        border: mapId === a.id ? '2px solid #00cccc' : '1px solid rgba(255,255,255,0.1)',
                                         borderRadius: '8px',
                                         cursor: 'pointer',
                                         textAlign: 'center',
                                     }}
                                 >
                                     <div style={{ fontSize: '24px', marginBottom: '4px' }}>{a.icon}</div>
-                                    <div style={{ fontSize: '9px', color: arena === a.id ? '#00ffff' : '#888' }}>{a.name}</div>
+                                    <div style={{ fontSize: '9px', color: mapId === a.id ? '#00ffff' : '#888' }}>{a.name}</div>
                                 </button>
                             ))}
                         </div>
@@ -217,55 +255,26 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onJoin, isConnecting, error
                         <label style={{ display: 'block', color: '#00cccc', fontSize: '11px', marginBottom: '8px' }}>
                             GAME MODE
                         </label>
-                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
-                            <button
-                                type="button"
-                                onClick={() => setGameMode('practice')}
-                                style={{
-                                    padding: '12px',
-                                    background: gameMode === 'practice' ? 'linear-gradient(135deg, #22aa44, #44cc66)' : 'rgba(30,40,60,0.6)',
-                                    border: gameMode === 'practice' ? '2px solid #44ff88' : '1px solid rgba(255,255,255,0.1)',
-                                    borderRadius: '8px',
-                                    color: gameMode === 'practice' ? '#fff' : '#888',
-                                    fontSize: '11px',
-                                    fontWeight: 'bold',
-                                    cursor: 'pointer',
-                                }}
-                            >
-                                🎯 PRACTICE
-                            </button>
-                            <button
-                                type="button"
-                                onClick={() => setGameMode('ffa')}
-                                style={{
-                                    padding: '12px',
-                                    background: gameMode === 'ffa' ? 'linear-gradient(135deg, #0088cc, #00aaff)' : 'rgba(30,40,60,0.6)',
-                                    border: gameMode === 'ffa' ? '2px solid #00ccff' : '1px solid rgba(255,255,255,0.1)',
-                                    borderRadius: '8px',
-                                    color: gameMode === 'ffa' ? '#fff' : '#888',
-                                    fontSize: '11px',
-                                    fontWeight: 'bold',
-                                    cursor: 'pointer',
-                                }}
-                            >
-                                ⚔️ FREE FOR ALL
-                            </button>
-                            <button
-                                type="button"
-                                onClick={() => setGameMode('team')}
-                                style={{
-                                    padding: '12px',
-                                    background: gameMode === 'team' ? 'linear-gradient(135deg, #8800cc, #aa44ff)' : 'rgba(30,40,60,0.6)',
-                                    border: gameMode === 'team' ? '2px solid #aa66ff' : '1px solid rgba(255,255,255,0.1)',
-                                    borderRadius: '8px',
-                                    color: gameMode === 'team' ? '#fff' : '#888',
-                                    fontSize: '11px',
-                                    fontWeight: 'bold',
-                                    cursor: 'pointer',
-                                }}
-                            >
-                                👥 TEAM BATTLE
-                            </button>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '8px' }}>
+                            {GAME_MODES.map((mode) => (
+                                <button
+                                    key={mode.id}
+                                    type="button"
+                                    onClick={() => setGameMode(mode.id)}
+                                    style={{
+                                        padding: '12px',
+                                        background: gameMode === mode.id ? mode.gradient : 'rgba(30,40,60,0.6)',
+                                        border: gameMode === mode.id ? `2px solid ${mode.border}` : '1px solid rgba(255,255,255,0.1)',
+                                        borderRadius: '8px',
+                                        color: gameMode === mode.id ? '#fff' : '#888',
+                                        fontSize: '11px',
+                                        fontWeight: 'bold',
+                                        cursor: 'pointer',
+                                    }}
+                                >
+                                    {mode.icon} {mode.name}
+                                </button>
+                            ))}
                         </div>
                         {gameMode === 'practice' && (
                             <div style={{ marginTop: '12px' }}>
@@ -306,26 +315,168 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onJoin, isConnecting, error
                                         🎯 STATIONARY
                                     </button>
                                 </div>
+                                {botBehavior === 'aggressive' && (
+                                    <>
+                                        <label style={{ display: 'block', color: '#44cc66', fontSize: '10px', margin: '10px 0 6px', textAlign: 'center' }}>
+                                            BOT DIFFICULTY
+                                        </label>
+                                        <div style={{ display: 'grid', gridTemplateColumns: `repeat(${BOT_DIFFICULTIES.length}, 1fr)`, gap: '6px' }}>
+                                            {BOT_DIFFICULTIES.map(difficulty => (
+                                                <button
+                                                    key={difficulty}
+                                                    type="button"
+                                                    onClick={() => setBotDifficulty(difficulty)}
+                                                    style={{
+                                                        padding: '8px 4px',
+                                                        background: botDifficulty === difficulty ? 'linear-gradient(135deg, #22aa44, #44cc66)' : 'rgba(30,40,60,0.6)',
+                                                        border: botDifficulty === difficulty ? '2px solid #44ff88' : '1px solid rgba(255,255,255,0.1)',
+                                                        borderRadius: '8px',
+                                                        color: botDifficulty === difficulty ? '#fff' : '#888',
+                                                        fontSize: '10px',
+                                                        fontWeight: 'bold',
+                                                        cursor: 'pointer',
+                                                    }}
+                                                >
+                                                    {difficulty.toUpperCase()}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </>
+                                )}
+                                <label style={{ display: 'block', color: '#44cc66', fontSize: '10px', margin: '10px 0 6px', textAlign: 'center' }}>
+                                    BOTS
+                                </label>
+                                <div style={{ display: 'grid', gridTemplateColumns: `repeat(${BOT_COUNTS.length}, 1fr)`, gap: '6px' }}>
+                                    {BOT_COUNTS.map(count => (
+                                        <button
+                                            key={count}
+                                            type="button"
+                                            onClick={() => setBotCount(count)}
+                                            style={{
+                                                padding: '8px 4px',
+                                                background: botCount === count ? 'linear-gradient(135deg, #22aa44, #44cc66)' : 'rgba(30,40,60,0.6)',
+                                                border: botCount === count ? '2px solid #44ff88' : '1px solid rgba(255,255,255,0.1)',
+                                                borderRadius: '8px',
+                                                color: botCount === count ? '#fff' : '#888',
+                                                fontSize: '10px',
+                                                fontWeight: 'bold',
+                                                cursor: 'pointer',
+                                            }}
+                                        >
+                                            {count}
+                                        </button>
+                                    ))}
+                                </div>
                             </div>
                         )}
                     </div>
 
+                    {/* Open Matches */}
+                    {gameMode !== 'practice' && (
+                        <div style={{ marginBottom: '20px' }}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                                <label style={{ color: '#00cccc', fontSize: '11px' }}>
+                                    OPEN MATCHES
+                                </label>
+                                <button
+                                    type="button"
+                                    onClick={handleCreateRoom}
+                                    disabled={isConnecting}
+                                    style={{
+                                        padding: '4px 10px',
+                                        background: 'rgba(0,255,255,0.1)',
+                                        border: '1px solid rgba(0,255,255,0.4)',
+                                        borderRadius: '6px',
+                                        color: '#00ffff',
+                                        fontSize: '10px',
+                                        fontWeight: 'bold',
+                                        cursor: 'pointer',
+                                    }}
+                                >
+                                    + CREATE MATCH
+                                </button>
+                            </div>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', maxHeight: '140px', overflowY: 'auto' }}>
+                                <button
+                                    type="button"
+                                    onClick={() => setSelectedRoomId(undefined)}
+                                    style={{
+                                        padding: '8px 12px',
+                                        background: !activeRoomId ? 'rgba(0,255,255,0.15)' : 'rgba(30,40,60,0.6)',
+                                        border: !activeRoomId ? '2px solid #00cccc' : '1px solid rgba(255,255,255,0.1)',
+                                        borderRadius: '8px',
+                                        color: !activeRoomId ? '#00ffff' : '#888',
+                                        fontSize: '11px',
+                                        textAlign: 'left',
+                                        cursor: 'pointer',
+                                    }}
+                                >
+                                    ⚡ QUICK JOIN
+                                </button>
+                                {openRooms.map((room) => {
+                                    const isFull = room.playerCount >= room.maxPlayers;
+                                    const isSelected = activeRoomId === room.id;
+                                    return (
+                                        <button
+                                            key={room.id}
+                                            type="button"
+                                            disabled={isFull}
+                                            onClick={() => setSelectedRoomId(room.id)}
+                                            style={{
+                                                display: 'flex',
+                                                justifyContent: 'space-between',
+                                                padding: '8px 12px',
+                                                background: isSelected ? 'rgba(0,255,255,0.15)' : 'rgba(30,40,60,0.6)',
+                                                border: isSelected ? '2px solid #00cccc' : '1px solid rgba(255,255,255,0.1)',
+                                                borderRadius: '8px',
+                                                color: isFull ? '#555' : isSelected ? '#00ffff' : '#aaa',
+                                                fontSize: '11px',
+                                                cursor: isFull ? 'not-allowed' : 'pointer',
+                                            }}
+                                        >
+                                            <span>{getArenaMap(room.mapId).icon} {room.name}</span>
+                                            <span>{room.playerCount}/{room.maxPlayers}</span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Team Selection */}
-                    {gameMode === 'team' && (
+                    {pickTeam && (
                         <div style={{ marginBottom: '20px' }}>
                             <label style={{ display: 'block', color: '#00cccc', fontSize: '11px', marginBottom: '8px' }}>
                                 SELECT TEAM
                             </label>
-                            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '8px' }}>
+                            <div style={{ display: 'grid', gridTemplateColumns: `repeat(${soloAllowed ? 3 : 2}, 1fr)`, gap: '8px' }}>
+                                {soloAllowed && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setFlySolo(true)}
+                                        style={{
+                                            padding: '12px',
+                                            background: !joinTeam ? 'rgba(200,160,30,0.8)' : 'rgba(30,40,60,0.6)',
+                                            border: !joinTeam ? '2px solid #ffdd44' : '1px solid rgba(255,220,100,0.3)',
+                                            borderRadius: '8px',
+                                            color: !joinTeam ? '#fff' : '#ccaa44',
+                                            fontSize: '12px',
+                                            fontWeight: 'bold',
+                                            cursor: 'pointer',
+                                        }}
+                                    >
+                                        👤 SOLO
+                                    </button>
+                                )}
                                 <button
                                     type="button"
-                                    onClick={() => setTeam('red')}
+                                    onClick={() => { setTeam('red'); setFlySolo(false); }}
                                     style={{
                                         padding: '12px',
-                                        background: team === 'red' ? 'rgba(200,50,50,0.8)' : 'rgba(30,40,60,0.6)',
-                                        border: team === 'red' ? '2px solid #ff6666' : '1px solid rgba(255,100,100,0.3)',
+                                        background: joinTeam === 'red' ? 'rgba(200,50,50,0.8)' : 'rgba(30,40,60,0.6)',
+                                        border: joinTeam === 'red' ? '2px solid #ff6666' : '1px solid rgba(255,100,100,0.3)',
                                         borderRadius: '8px',
-                                        color: team === 'red' ? '#fff' : '#cc6666',
+                                        color: joinTeam === 'red' ? '#fff' : '#cc6666',
                                         fontSize: '12px',
                                         fontWeight: 'bold',
                                         cursor: 'pointer',
@@ -335,13 +486,13 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onJoin, isConnecting, error
                                 </button>
                                 <button
                                     type="button"
-                                    onClick={() => setTeam('blue')}
+                                    onClick={() => { setTeam('blue'); setFlySolo(false); }}
                                     style={{
                                         padding: '12px',
-                                        background: team === 'blue' ? 'rgba(50,100,200,0.8)' : 'rgba(30,40,60,0.6)',
-                                        border: team === 'blue' ? '2px solid #6688ff' : '1px solid rgba(100,150,255,0.3)',
+                                        background: joinTeam === 'blue' ? 'rgba(50,100,200,0.8)' : 'rgba(30,40,60,0.6)',
+                                        border: joinTeam === 'blue' ? '2px solid #6688ff' : '1px solid rgba(100,150,255,0.3)',
                                         borderRadius: '8px',
-                                        color: team === 'blue' ? '#fff' : '#6688cc',
+                                        color: joinTeam === 'blue' ? '#fff' : '#6688cc',
                                         fontSize: '12px',
                                         fontWeight: 'bold',
                                         cursor: 'pointer',
@@ -391,8 +542,64 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onJoin, isConnecting, error
                     >
                         {isConnecting ? '⟳ CONNECTING...' : 'LAUNCH'}
                     </button>
+
+                    {/* Watch the selected match without flying */}
+                    {gameMode !== 'practice' && (
+                        <button
+                            type="button"
+                            disabled={isConnecting}
+                            onClick={() => onSpectate(gameMode, activeRoomId)}
+                            style={{
+                                width: '100%',
+                                marginTop: '10px',
+                                padding: '10px',
+                                background: 'rgba(30,40,60,0.6)',
+                                border: '1px solid rgba(0,255,255,0.3)',
+                                borderRadius: '8px',
+                                color: isConnecting ? '#555' : '#00cccc',
+                                fontSize: '12px',
+                                fontWeight: 'bold',
+                                cursor: isConnecting ? 'not-allowed' : 'pointer',
+                            }}
+                        >
+                            👁 SPECTATE
+                        </button>
+                    )}
                 </form>
 
+                {/* Recent replays */}
+                {replays.length > 0 && (
+                    <div style={{ marginTop: '20px' }}>
+                        <label style={{ display: 'block', color: '#00cccc', fontSize: '11px', marginBottom: '8px' }}>
+                            🎬 RECENT REPLAYS
+                        </label>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', maxHeight: '140px', overflowY: 'auto' }}>
+                            {replays.slice(0, 10).map(replay => (
+                                <button
+                                    key={replay.id}
+                                    type="button"
+                                    disabled={isConnecting}
+                                    onClick={() => onWatchReplay(replay.id)}
+                                    style={{
+                                        display: 'flex',
+                                        justifyContent: 'space-between',
+                                        padding: '8px 12px',
+                                        background: 'rgba(30,40,60,0.6)',
+                                        border: '1px solid rgba(255,255,255,0.1)',
+                                        borderRadius: '8px',
+                                        color: '#aaa',
+                                        fontSize: '11px',
+                                        cursor: isConnecting ? 'not-allowed' : 'pointer',
+                                    }}
+                                >
+                                    <span>{replay.roomName} · R{replay.round} · {replay.winner ?? 'DRAW'}</span>
+                                    <span>{new Date(replay.startedAt).toLocaleTimeString()} · {Math.round(replay.duration / 60000)}m</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* Controls hint */}
                 <div style={{ marginTop: '20px', textAlign: 'center', color: '#555', fontSize: '11px' }}>
                     <p>WASD move • Mouse aim • Click shoot • 1/2/3 weapons</p>
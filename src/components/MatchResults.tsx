@@ -0,0 +1,102 @@
+/**
+ * Match Results Component
+ * End-of-match standings shown between rounds, with a countdown to the next warmup
+ */
+
+import React, { useEffect, useState } from 'react';
+import { MatchEndData, GameMode, isTeamMode } from '../../shared/Protocol';
+
+interface MatchResultsProps {
+    results: MatchEndData;
+    localPlayerId: string;
+    gameMode: GameMode | 'practice';
+    timeUntilNextRound: number; // ms, at the time the results arrived
+}
+
+export const MatchResults: React.FC<MatchResultsProps> = ({
+    results,
+    localPlayerId,
+    gameMode,
+    timeUntilNextRound,
+}) => {
+    // Count down locally between snapshots
+    const [remaining, setRemaining] = useState(timeUntilNextRound);
+    useEffect(() => {
+        const endsAt = Date.now() + timeUntilNextRound;
+        setRemaining(timeUntilNextRound);
+        const timer = setInterval(() => setRemaining(Math.max(0, endsAt - Date.now())), 250);
+        return () => clearInterval(timer);
+    }, [timeUntilNextRound]);
+
+    const winnerName = results.standings.find(s => s.playerId === results.winnerId)?.name;
+    let headline: string;
+    if (results.wave !== undefined) {
+        headline = `RUN OVER — WAVE ${results.wave}`;
+    } else if (results.isDraw) {
+        headline = 'DRAW';
+    } else if (results.winnerTeam) {
+        headline = `${results.winnerTeam.toUpperCase()} TEAM WINS`;
+    } else if (results.winnerId === localPlayerId) {
+        headline = 'VICTORY';
+    } else {
+        headline = `${winnerName ?? 'UNKNOWN'} WINS`;
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+            <div className="bg-gray-900/95 backdrop-blur-md border border-purple-500/50 rounded-xl p-6 min-w-96 max-h-[80vh] overflow-auto">
+                <div className="text-xs text-gray-400 font-mono text-center mb-1">ROUND {results.round} COMPLETE</div>
+                <h2 className="text-3xl font-bold text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-pink-500 mb-4">
+                    {headline}
+                </h2>
+
+                {gameMode !== 'practice' && isTeamMode(gameMode) && (
+                    <div className="flex justify-center gap-8 mb-6">
+                        <div className="text-center">
+                            <div className="text-red-400 text-sm font-mono">RED TEAM</div>
+                            <div className="text-4xl font-bold text-red-500">{results.teamScores.red}</div>
+                        </div>
+                        <div className="text-2xl text-gray-500 self-center">VS</div>
+                        <div className="text-center">
+                            <div className="text-blue-400 text-sm font-mono">BLUE TEAM</div>
+                            <div className="text-4xl font-bold text-blue-500">{results.teamScores.blue}</div>
+                        </div>
+                    </div>
+                )}
+
+                <table className="w-full text-sm font-mono">
+                    <thead>
+                        <tr className="text-gray-400 border-b border-gray-700">
+                            <th className="text-left py-2 px-2">#</th>
+                            <th className="text-left py-2 px-2">PILOT</th>
+                            <th className="text-right py-2 px-2">SCORE</th>
+                            <th className="text-right py-2 px-2">K</th>
+                            <th className="text-right py-2 px-2">D</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {results.standings.map((standing, index) => (
+                            <tr
+                                key={standing.playerId}
+                                className={`border-b border-gray-800 ${standing.playerId === localPlayerId ? 'bg-purple-900/30 text-white' : 'text-gray-300'}`}
+                            >
+                                <td className="py-2 px-2">{index + 1}</td>
+                                <td className={`py-2 px-2 ${standing.team === 'red' ? 'text-red-400' : standing.team === 'blue' ? 'text-blue-400' : ''}`}>
+                                    {standing.name}
+                                    {standing.isBot && <span className="text-xs text-gray-500 ml-1">[BOT]</span>}
+                                </td>
+                                <td className="text-right py-2 px-2">{standing.score}</td>
+                                <td className="text-right py-2 px-2 text-green-400">{standing.kills}</td>
+                                <td className="text-right py-2 px-2 text-red-400">{standing.deaths}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <div className="text-center text-sm text-gray-400 font-mono mt-4">
+                    Next round in {Math.ceil(remaining / 1000)}s
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,9 +1,10 @@
 /**
  * Minimap Component
- * Radar showing nearby players and power-ups - positioned top right
+ * Radar showing nearby players, power-ups, CTF flags and the KOTH zone - positioned top right
  */
 
 import React from 'react';
+import { FlagStatus } from '../../shared/Protocol';
 
 interface MinimapPlayer {
     id: string;
@@ -22,9 +23,18 @@ interface MinimapPowerUp {
     isActive: boolean;
 }
 
+interface MinimapFlag {
+    team: 'red' | 'blue';
+    x: number;
+    z: number;
+    status: FlagStatus;
+}
+
 interface MinimapProps {
     players: MinimapPlayer[];
     powerUps: MinimapPowerUp[];
+    flags?: MinimapFlag[];
+    zone?: { x: number; z: number; radius: number } | null;
     playerPosition: { x: number; z: number };
     playerRotation: number;
     localPlayerId: string;
@@ -34,6 +44,8 @@ interface MinimapProps {
 export const Minimap: React.FC<MinimapProps> = ({
     players,
     powerUps,
+    flags = [],
+    zone = null,
     playerPosition,
     playerRotation,
     localPlayerId,
@@ -104,6 +116,49 @@ export const Minimap: React.FC<MinimapProps> = ({
                     );
                 })}
 
+                {/* Control zone */}
+                {zone && (() => {
+                    const pos = worldToMinimap(zone.x, zone.z);
+                    const size = (zone.radius / radarRange) * mapSize;
+                    return (
+                        <div
+                            className="absolute rounded-full"
+                            style={{
+                                left: pos.x - size / 2,
+                                top: pos.y - size / 2,
+                                width: size,
+                                height: size,
+                                border: '1px solid #fbbf24',
+                                background: 'rgba(251, 191, 36, 0.15)',
+                            }}
+                        />
+                    );
+                })()}
+
+                {/* Flags - pinned to the radar edge when out of range so they can always be found */}
+                {flags.map(flag => {
+                    const pos = worldToMinimap(flag.x, flag.z);
+                    const x = Math.max(4, Math.min(mapSize - 4, pos.x));
+                    const y = Math.max(4, Math.min(mapSize - 4, pos.y));
+                    const color = flag.team === 'red' ? '#ef4444' : '#3b82f6';
+
+                    return (
+                        <div
+                            key={`flag_${flag.team}`}
+                            className={`absolute text-xs leading-none ${flag.status === 'dropped' ? 'animate-pulse' : ''}`}
+                            style={{
+                                left: x - 5,
+                                top: y - 10,
+                                color,
+                                filter: `drop-shadow(0 0 4px ${color})`,
+                                opacity: flag.status === 'carried' ? 0.7 : 1,
+                            }}
+                        >
+                            ⚑
+                        </div>
+                    );
+                })}
+
                 {/* Other players */}
                 {players.filter(p => p.id !== localPlayerId && p.isAlive).map(player => {
                     const pos = worldToMinimap(player.x, player.z);
@@ -0,0 +1,106 @@
+/**
+ * Practice Menu Component
+ * In-game sandbox settings for a practice session (toggled with P)
+ */
+
+import React from 'react';
+import { PracticeSettings, BOT_DIFFICULTIES, GAME_CONSTANTS } from '../../shared/Protocol';
+
+interface PracticeMenuProps {
+    settings: PracticeSettings;
+    onChange: (changes: Partial<PracticeSettings>) => void;
+    onClose: () => void;
+}
+
+const BOT_COUNTS = [0, 1, 3, 5, GAME_CONSTANTS.PRACTICE_MAX_BOTS];
+
+export const PracticeMenu: React.FC<PracticeMenuProps> = ({ settings, onChange, onClose }) => {
+    const isPassive = settings.botBehavior === 'passive';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+            <div
+                className="bg-gray-900/95 backdrop-blur-md border border-cyan-500/50 rounded-xl p-6 w-96 font-mono"
+                onClick={e => e.stopPropagation()}
+            >
+                <h2 className="text-2xl font-bold text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-pink-500 mb-4">
+                    PRACTICE SETTINGS
+                </h2>
+
+                <Section label="BOTS">
+                    {BOT_COUNTS.map(count => (
+                        <Choice key={count} isSelected={settings.botCount === count} onClick={() => onChange({ botCount: count })}>
+                            {count}
+                        </Choice>
+                    ))}
+                </Section>
+
+                <Section label="BOT BEHAVIOR">
+                    <Choice isSelected={!isPassive} onClick={() => onChange({ botBehavior: 'aggressive' })}>
+                        ⚔️ ATTACK
+                    </Choice>
+                    <Choice isSelected={isPassive} onClick={() => onChange({ botBehavior: 'passive' })}>
+                        🎯 STATIONARY
+                    </Choice>
+                </Section>
+
+                <Section label="BOT DIFFICULTY">
+                    {BOT_DIFFICULTIES.map(difficulty => (
+                        <Choice
+                            key={difficulty}
+                            isSelected={settings.botDifficulty === difficulty}
+                            isDisabled={isPassive}
+                            onClick={() => onChange({ botDifficulty: difficulty })}
+                        >
+                            {difficulty.toUpperCase()}
+                        </Choice>
+                    ))}
+                </Section>
+
+                <div className="space-y-2 mt-4">
+                    <Toggle label="Infinite ammo" isOn={settings.infiniteAmmo} onClick={() => onChange({ infiniteAmmo: !settings.infiniteAmmo })} />
+                    <Toggle label="Invulnerable" isOn={settings.invulnerable} onClick={() => onChange({ invulnerable: !settings.invulnerable })} />
+                    <Toggle label="Instant respawn" isOn={settings.instantRespawn} onClick={() => onChange({ instantRespawn: !settings.instantRespawn })} />
+                </div>
+
+                <div className="text-center text-xs text-gray-500 mt-5">
+                    Press P to close
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const Section: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <div className="mb-3">
+        <div className="text-xs text-gray-400 mb-1">{label}</div>
+        <div className="flex gap-2">{children}</div>
+    </div>
+);
+
+const Choice: React.FC<{ isSelected: boolean; isDisabled?: boolean; onClick: () => void; children: React.ReactNode }> = ({
+    isSelected,
+    isDisabled,
+    onClick,
+    children,
+}) => (
+    <button
+        onClick={onClick}
+        disabled={isDisabled}
+        className={`flex-1 py-1 text-xs rounded border transition-colors ${isSelected
+            ? 'bg-cyan-500/30 border-cyan-400 text-cyan-200'
+            : 'bg-gray-800/60 border-gray-700 text-gray-400 hover:border-gray-500'} ${isDisabled ? 'opacity-40 cursor-not-allowed' : ''}`}
+    >
+        {children}
+    </button>
+);
+
+const Toggle: React.FC<{ label: string; isOn: boolean; onClick: () => void }> = ({ label, isOn, onClick }) => (
+    <button
+        onClick={onClick}
+        className="w-full flex justify-between items-center px-3 py-2 rounded bg-gray-800/60 border border-gray-700 hover:border-gray-500 text-sm"
+    >
+        <span className="text-gray-300">{label}</span>
+        <span className={isOn ? 'text-green-400' : 'text-gray-500'}>{isOn ? 'ON' : 'OFF'}</span>
+    </button>
+);
@@ -0,0 +1,91 @@
+/**
+ * Replay Controls Component
+ * Play/pause, seek bar and playback speed for a recorded match
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ReplayPlayer } from '../network/ReplayPlayer';
+
+interface ReplayControlsProps {
+    player: ReplayPlayer;
+    onExit: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+function formatTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ player, onExit }) => {
+    // The player advances on its own - poll it for display
+    const [, setTick] = useState(0);
+    useEffect(() => {
+        const timer = setInterval(() => setTick(tick => tick + 1), 100);
+        return () => clearInterval(timer);
+    }, []);
+
+    const info = player.getInfo();
+    const position = player.getPosition();
+    const duration = player.getDuration();
+    const isPlaying = player.isPlaying();
+
+    return (
+        <div className="fixed bottom-32 left-1/2 -translate-x-1/2 z-50 w-[36rem] font-mono">
+            <div className="bg-gray-900/90 backdrop-blur-sm border border-cyan-500/50 rounded-lg px-4 py-3">
+                <div className="flex justify-between items-center text-xs text-gray-400 mb-2">
+                    <span>
+                        🎬 <span className="text-cyan-300">{info.roomName}</span> · ROUND {info.round}
+                        {info.winner && <span className="ml-2">· {info.winner} WON</span>}
+                    </span>
+                    <button onClick={onExit} className="text-gray-400 hover:text-red-400">✕ EXIT</button>
+                </div>
+
+                <input
+                    type="range"
+                    min={0}
+                    max={duration}
+                    step={100}
+                    value={position}
+                    onChange={e => player.seek(Number(e.target.value))}
+                    className="w-full accent-cyan-400"
+                />
+
+                <div className="flex items-center gap-2 mt-2">
+                    <button
+                        onClick={() => player.seek(0)}
+                        className="px-2 py-1 rounded bg-gray-800 border border-gray-700 text-gray-300 hover:border-gray-500 text-sm"
+                    >
+                        ⏮
+                    </button>
+                    <button
+                        onClick={() => isPlaying ? player.pause() : player.play()}
+                        className="px-3 py-1 rounded bg-cyan-500/30 border border-cyan-400 text-cyan-200 text-sm w-12"
+                    >
+                        {isPlaying ? '⏸' : '▶'}
+                    </button>
+                    <span className="text-sm text-gray-300 w-28">
+                        {formatTime(position)} / {formatTime(duration)}
+                    </span>
+
+                    <div className="flex gap-1 ml-auto">
+                        {SPEEDS.map(speed => (
+                            <button
+                                key={speed}
+                                onClick={() => player.setSpeed(speed)}
+                                className={`px-2 py-1 rounded text-xs border ${player.getSpeed() === speed
+                                    ? 'bg-cyan-500/30 border-cyan-400 text-cyan-200'
+                                    : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                            >
+                                {speed}x
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
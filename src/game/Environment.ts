@@ -1,61 +1,39 @@
 /**
  * Space Environment - Multiple Arena Themes
- * Creates different battleground settings
+ * Builds the battleground scene from the match's map: its colors, backdrop and obstacles
  */
 
 import * as THREE from 'three';
+import { ArenaMap } from '../../shared/ArenaMaps';
+import { Obstacle } from '../../shared/Obstacles';
 
-export type ArenaType = 'solar' | 'earth' | 'mars' | 'jupiter';
-
-// Arena color palettes
-const ARENA_PALETTES = {
-    solar: {
-        skyColor: 0x000011,
-        fogColor: 0x000022,
-        ambientColor: 0x222244,
-        sunColor: 0xffffee,
-        starColors: [0xffffff, 0xffddaa, 0xff7744, 0x8888ff],
-    },
-    earth: {
-        skyColor: 0x000033,
-        fogColor: 0x001144,
-        ambientColor: 0x334455,
-        sunColor: 0xffffff,
-        starColors: [0xffffff, 0xccddff, 0xaabbff, 0xffffff],
-    },
-    mars: {
-        skyColor: 0x220500,
-        fogColor: 0x331100,
-        ambientColor: 0x442211,
-        sunColor: 0xffaa77,
-        starColors: [0xffccaa, 0xffaa88, 0xff8866, 0xffffcc],
-    },
-    jupiter: {
-        skyColor: 0x110800,
-        fogColor: 0x221100,
-        ambientColor: 0x443322,
-        sunColor: 0xffddaa,
-        starColors: [0xffeecc, 0xffcc88, 0xddaa66, 0xffffff],
-    },
-};
+// The boundary field shows up as ships come within this distance of the combat zone's edge
+const BOUNDARY_FADE_DISTANCE = 80;
 
 export class Environment {
     private scene: THREE.Scene;
     private starfield: THREE.Points | null = null;
     private planets: THREE.Group;
+    private wrecks: THREE.Group;
     private asteroids: THREE.InstancedMesh | null = null;
+    private boundary: THREE.LineSegments; // Grid on the combat zone's edge
     private ambientLight: THREE.AmbientLight;
     private sunLight: THREE.DirectionalLight;
-    private arena: ArenaType;
+    private map: ArenaMap;
 
-    constructor(scene: THREE.Scene, arena: ArenaType = 'solar') {
+    // King-of-the-hill zone volume (created on first use)
+    private controlZone: THREE.Group | null = null;
+    private zoneTime: number = 0;
+
+    constructor(scene: THREE.Scene, map: ArenaMap, obstacles: Obstacle[]) {
         this.scene = scene;
-        this.arena = arena;
+        this.map = map;
         this.planets = new THREE.Group();
+        this.wrecks = new THREE.Group();
 
-        const palette = ARENA_PALETTES[arena];
+        const palette = map.theme;
 
-        // Scene settings based on arena
+        // Scene settings based on the map's theme
         this.scene.background = new THREE.Color(palette.skyColor);
         this.scene.fog = new THREE.FogExp2(palette.fogColor, 0.00015);
 
@@ -67,15 +45,23 @@ export class Environment {
         this.sunLight.position.set(100, 50, -50);
         scene.add(this.sunLight);
 
-        // Create environment based on arena type
+        // Create environment based on the map's backdrop
         this.createStarfield();
         this.createArenaElements();
+        this.createAsteroids(obstacles.filter(obstacle => obstacle.type === 'asteroid'));
+        obstacles.filter(obstacle => obstacle.type === 'wreck').forEach(wreck => {
+            this.wrecks.add(this.createWreck(wreck));
+        });
+
+        this.boundary = this.createBoundaryField();
 
         scene.add(this.planets);
+        scene.add(this.wrecks);
+        scene.add(this.boundary);
     }
 
     private createStarfield() {
-        const palette = ARENA_PALETTES[this.arena];
+        const palette = this.map.theme;
         const starCount = 8000;
         const positions = new Float32Array(starCount * 3);
         const colors = new Float32Array(starCount * 3);
@@ -90,7 +76,7 @@ export class Environment {
             positions[i * 3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
             positions[i * 3 + 2] = radius * Math.cos(phi);
 
-            // Use arena-specific star colors
+            // Use map-specific star colors
             const colorChoice = palette.starColors[Math.floor(Math.random() * palette.starColors.length)];
             const color = new THREE.Color(colorChoice);
             colors[i * 3] = color.r;
@@ -119,7 +105,7 @@ export class Environment {
     }
 
     private createArenaElements() {
-        switch (this.arena) {
+        switch (this.map.theme.backdrop) {
             case 'earth':
                 this.createEarthArena();
                 break;
@@ -133,48 +119,66 @@ export class Environment {
                 this.createSolarArena();
         }
 
-        // Always add asteroids and war debris for gameplay
-        this.createAsteroids();
         this.createWarDebris();
     }
 
-    // War debris - destroyed ships and wreckage
-    private createWarDebris() {
-        const debrisGroup = new THREE.Group();
+    // A destroyed ship hull filling its collision capsule, the fuselage along the capsule's axis
+    private createWreck(obstacle: Obstacle): THREE.Group {
+        const hullGroup = new THREE.Group();
 
-        // 5 destroyed ship hulls scattered around
-        for (let i = 0; i < 5; i++) {
-            const hullGroup = new THREE.Group();
-
-            // Damaged fuselage
-            const hullGeom = new THREE.CylinderGeometry(2, 3, 12, 6);
-            hullGeom.rotateX(Math.PI / 2);
-            const hull = new THREE.Mesh(hullGeom, new THREE.MeshStandardMaterial({
-                color: 0x333344, metalness: 0.8, roughness: 0.6
-            }));
-            hullGroup.add(hull);
-
-            // Broken wing
-            const wing = new THREE.Mesh(
-                new THREE.BoxGeometry(8, 0.3, 3),
-                new THREE.MeshStandardMaterial({ color: 0x444455, metalness: 0.7 })
-            );
-            wing.position.set(2, 0, 0);
-            wing.rotation.z = 0.3;
-            hullGroup.add(wing);
-
-            // Position around arena
-            const angle = (i / 5) * Math.PI * 2 + Math.random() * 0.5;
-            const radius = 150 + Math.random() * 250;
-            hullGroup.position.set(
-                Math.cos(angle) * radius,
-                (Math.random() - 0.5) * 100,
-                Math.sin(angle) * radius
-            );
-            hullGroup.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
-            debrisGroup.add(hullGroup);
+        // Damaged fuselage
+        const hullGeom = new THREE.CylinderGeometry(2, 3, 12, 6);
+        hullGeom.rotateX(Math.PI / 2);
+        const hull = new THREE.Mesh(hullGeom, new THREE.MeshStandardMaterial({
+            color: 0x333344, metalness: 0.8, roughness: 0.6
+        }));
+        hullGroup.add(hull);
+
+        // Broken wing
+        const wing = new THREE.Mesh(
+            new THREE.BoxGeometry(8, 0.3, 3),
+            new THREE.MeshStandardMaterial({ color: 0x444455, metalness: 0.7 })
+        );
+        wing.position.set(2, 0, 0);
+        wing.rotation.z = 0.3;
+        hullGroup.add(wing);
+
+        // The hull is 12 long and the capsule spans its radius plus half length either way
+        const { axis } = obstacle;
+        hullGroup.scale.setScalar((obstacle.radius + obstacle.halfLength) / 6);
+        hullGroup.position.set(obstacle.position.x, obstacle.position.y, obstacle.position.z);
+        hullGroup.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), new THREE.Vector3(axis.x, axis.y, axis.z));
+        return hullGroup;
+    }
+
+    // Glowing grid on the faces of the combat zone cube, faded in by update()
+    private createBoundaryField(): THREE.LineSegments {
+        const size = this.map.bounds.size;
+        const divisions = 10;
+        const vertices: number[] = [];
+
+        // Grid lines on each of the six faces
+        const half = size / 2;
+        for (let i = 0; i <= divisions; i++) {
+            const t = -half + (size * i) / divisions;
+            for (const side of [-half, half]) {
+                vertices.push(side, t, -half, side, t, half, side, -half, t, side, half, t);
+                vertices.push(t, side, -half, t, side, half, -half, side, t, half, side, t);
+                vertices.push(t, -half, side, t, half, side, -half, t, side, half, t, side);
+            }
         }
 
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+        return new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({
+            color: 0xff5533, transparent: true, opacity: 0, depthWrite: false, blending: THREE.AdditiveBlending
+        }));
+    }
+
+    // War debris - floating wreckage particles
+    private createWarDebris() {
+        const debrisGroup = new THREE.Group();
+
         // Floating debris particles
         const debrisCount = 80;
         const positions = new Float32Array(debrisCount * 3);
@@ -426,65 +430,129 @@ export class Environment {
         this.planets.add(stormClouds);
     }
 
-    private createAsteroids() {
-        const asteroidCount = 150;
+    // Every asteroid of the map, solid and fixed in place (see shared/Obstacles.ts)
+    private createAsteroids(asteroids: Obstacle[]) {
         const baseGeom = new THREE.IcosahedronGeometry(1, 1);
 
-        // Deform the base geometry
+        // Deform the base geometry, keeping it close to the collision sphere
         const positions = baseGeom.attributes.position;
         for (let i = 0; i < positions.count; i++) {
             const x = positions.getX(i);
             const y = positions.getY(i);
             const z = positions.getZ(i);
-            const noise = 0.6 + Math.random() * 0.8;
+            const noise = 0.85 + Math.random() * 0.25;
             positions.setXYZ(i, x * noise, y * noise, z * noise);
         }
         baseGeom.computeVertexNormals();
 
         const asteroidMat = new THREE.MeshStandardMaterial({
-            color: this.arena === 'mars' ? 0x884433 : 0x555555,
+            color: this.map.theme.asteroidColor,
             roughness: 1,
             metalness: 0.2,
+            flatShading: true,
         });
 
-        this.asteroids = new THREE.InstancedMesh(baseGeom, asteroidMat, asteroidCount);
+        this.asteroids = new THREE.InstancedMesh(baseGeom, asteroidMat, asteroids.length);
 
         const dummy = new THREE.Object3D();
-        for (let i = 0; i < asteroidCount; i++) {
-            const angle = Math.random() * Math.PI * 2;
-            const radius = 250 + Math.random() * 300;
-            const height = (Math.random() - 0.5) * 150;
-
-            dummy.position.set(
-                Math.cos(angle) * radius,
-                height,
-                Math.sin(angle) * radius
-            );
+        asteroids.forEach((asteroid, i) => {
+            dummy.position.set(asteroid.position.x, asteroid.position.y, asteroid.position.z);
             dummy.rotation.set(
                 Math.random() * Math.PI,
                 Math.random() * Math.PI,
                 Math.random() * Math.PI
             );
-            const scale = 2 + Math.random() * 6;
-            dummy.scale.setScalar(scale);
+            dummy.scale.setScalar(asteroid.radius);
             dummy.updateMatrix();
-            this.asteroids.setMatrixAt(i, dummy.matrix);
-        }
+            this.asteroids!.setMatrixAt(i, dummy.matrix);
+        });
 
         this.scene.add(this.asteroids);
     }
 
+    /**
+     * Show the control zone at the given position and size, tinted by who holds it.
+     * Pass null to hide it (not a king-of-the-hill room).
+     */
+    updateControlZone(zone: { position: THREE.Vector3; radius: number; color: number } | null) {
+        if (!zone) {
+            if (this.controlZone) this.controlZone.visible = false;
+            return;
+        }
+
+        if (!this.controlZone) {
+            this.controlZone = this.createControlZone();
+            this.scene.add(this.controlZone);
+        }
+
+        this.controlZone.visible = true;
+        this.controlZone.position.copy(zone.position);
+        this.controlZone.scale.setScalar(zone.radius);
+        this.controlZone.traverse(child => {
+            if (child instanceof THREE.Mesh) {
+                (child.material as THREE.MeshBasicMaterial).color.setHex(zone.color);
+            } else if (child instanceof THREE.PointLight) {
+                child.color.setHex(zone.color);
+            }
+        });
+    }
+
+    // Unit-radius glowing shell with an equator ring, scaled to the zone radius
+    private createControlZone(): THREE.Group {
+        const group = new THREE.Group();
+
+        const shell = new THREE.Mesh(
+            new THREE.SphereGeometry(1, 32, 24),
+            new THREE.MeshBasicMaterial({
+                transparent: true,
+                opacity: 0.12,
+                side: THREE.DoubleSide,
+                depthWrite: false,
+                blending: THREE.AdditiveBlending,
+            })
+        );
+        group.add(shell);
+
+        const grid = new THREE.Mesh(
+            new THREE.SphereGeometry(1.005, 16, 12),
+            new THREE.MeshBasicMaterial({ wireframe: true, transparent: true, opacity: 0.25 })
+        );
+        group.add(grid);
+
+        const ring = new THREE.Mesh(
+            new THREE.TorusGeometry(1, 0.015, 8, 64),
+            new THREE.MeshBasicMaterial({ transparent: true, opacity: 0.8, blending: THREE.AdditiveBlending })
+        );
+        ring.rotation.x = Math.PI / 2;
+        group.add(ring);
+
+        // A light's range ignores the group scale, so give it the reach of a typical zone
+        group.add(new THREE.PointLight(0xffffff, 2, 120));
+
+        return group;
+    }
+
     update(delta: number, time: number, playerPosition: THREE.Vector3) {
+        // Pulse the control zone
+        if (this.controlZone?.visible) {
+            this.zoneTime += delta;
+            this.controlZone.rotation.y += delta * 0.2;
+            const shell = this.controlZone.children[0] as THREE.Mesh;
+            (shell.material as THREE.MeshBasicMaterial).opacity = 0.1 + Math.sin(this.zoneTime * 2) * 0.04;
+        }
+
+        // Boundary field brightens as the viewer nears the edge, flickering once past it
+        const half = this.map.bounds.size / 2;
+        const edgeDistance = half - Math.max(Math.abs(playerPosition.x), Math.abs(playerPosition.y), Math.abs(playerPosition.z));
+        const nearness = 1 - Math.max(0, Math.min(1, edgeDistance / BOUNDARY_FADE_DISTANCE));
+        const flicker = edgeDistance < 0 ? 0.15 * Math.sin(time * 8) : 0;
+        (this.boundary.material as THREE.LineBasicMaterial).opacity = 0.04 + nearness * 0.5 + flicker;
+
         // Slowly rotate starfield
         if (this.starfield) {
             this.starfield.rotation.y += delta * 0.002;
         }
 
-        // Rotate asteroids slowly
-        if (this.asteroids) {
-            this.asteroids.rotation.y += delta * 0.01;
-        }
-
         // Move planets slightly for parallax effect
         this.planets.children.forEach((child, index) => {
             if (child instanceof THREE.Mesh || child instanceof THREE.Group) {
@@ -515,6 +583,29 @@ export class Environment {
             }
         });
         this.scene.remove(this.planets);
+
+        this.wrecks.traverse(child => {
+            if (child instanceof THREE.Mesh) {
+                child.geometry.dispose();
+                (child.material as THREE.Material).dispose();
+            }
+        });
+        this.scene.remove(this.wrecks);
+
+        this.boundary.geometry.dispose();
+        (this.boundary.material as THREE.Material).dispose();
+        this.scene.remove(this.boundary);
+
+        if (this.controlZone) {
+            this.controlZone.traverse(child => {
+                if (child instanceof THREE.Mesh) {
+                    child.geometry.dispose();
+                    (child.material as THREE.Material).dispose();
+                }
+            });
+            this.scene.remove(this.controlZone);
+        }
+
         this.scene.remove(this.ambientLight);
         this.scene.remove(this.sunLight);
     }
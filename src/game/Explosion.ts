@@ -20,10 +20,13 @@ export class Explosion {
     private elapsedTime: number = 0;
     private duration: number = 1.5;
     private position: THREE.Vector3;
+    private scale: number;
 
-    constructor(scene: THREE.Scene, position: THREE.Vector3, color: number = 0xff6600) {
+    // scale 1 is a ship explosion (shockwave reaches ~15 units); splash effects pass their radius / 15
+    constructor(scene: THREE.Scene, position: THREE.Vector3, color: number = 0xff6600, scale: number = 1) {
         this.scene = scene;
         this.position = position.clone();
+        this.scale = scale;
 
         // Create the explosion
         this.createExplosion(color);
@@ -40,13 +43,13 @@ export class Explosion {
         ];
 
         // Core flash
-        const coreLight = new THREE.PointLight(0xffffff, 15, 80);
+        const coreLight = new THREE.PointLight(0xffffff, 15, 80 * this.scale);
         coreLight.position.copy(this.position);
         this.scene.add(coreLight);
         this.lights.push(coreLight);
 
         // Secondary colored lights
-        const light1 = new THREE.PointLight(baseColor, 10, 60);
+        const light1 = new THREE.PointLight(baseColor, 10, 60 * this.scale);
         light1.position.copy(this.position);
         this.scene.add(light1);
         this.lights.push(light1);
@@ -78,7 +81,7 @@ export class Explosion {
             mesh.position.copy(this.position);
 
             // Random velocity in all directions (spherical burst)
-            const speed = 20 + Math.random() * 40;
+            const speed = (20 + Math.random() * 40) * this.scale;
             const theta = Math.random() * Math.PI * 2;
             const phi = Math.acos(2 * Math.random() - 1);
 
@@ -156,7 +159,7 @@ export class Explosion {
             spark.position.copy(this.position);
 
             // Fast outward velocity
-            const speed = 40 + Math.random() * 30;
+            const speed = (40 + Math.random() * 30) * this.scale;
             const theta = Math.random() * Math.PI * 2;
             const phi = Math.acos(2 * Math.random() - 1);
 
@@ -230,7 +233,7 @@ export class Explosion {
 
             // Special handling for ring (expand it)
             if (particle.mesh.geometry.type === 'RingGeometry') {
-                const expansion = 1 + (1 - lifePercent) * 30;
+                const expansion = 1 + (1 - lifePercent) * 30 * this.scale;
                 particle.mesh.scale.set(expansion, expansion, 1);
             }
         }
@@ -0,0 +1,81 @@
+/**
+ * Flag Marker - Capture-the-flag flag: a glowing pole and banner in the team color,
+ * with a beacon ring while it sits at its base
+ */
+
+import * as THREE from 'three';
+import { FlagStatus } from '../../shared/Protocol';
+
+const TEAM_COLORS = {
+    red: 0xff3344,
+    blue: 0x3388ff,
+};
+
+export class FlagMarker {
+    private scene: THREE.Scene;
+    private group: THREE.Group;
+    private banner: THREE.Mesh;
+    private ring: THREE.Mesh;
+    private light: THREE.PointLight;
+    private time: number = 0;
+
+    constructor(scene: THREE.Scene, team: 'red' | 'blue') {
+        this.scene = scene;
+        this.group = new THREE.Group();
+        const color = TEAM_COLORS[team];
+
+        const pole = new THREE.Mesh(
+            new THREE.CylinderGeometry(0.2, 0.2, 10, 6),
+            new THREE.MeshBasicMaterial({ color: 0xdddddd })
+        );
+        pole.position.y = 5;
+        this.group.add(pole);
+
+        this.banner = new THREE.Mesh(
+            new THREE.PlaneGeometry(5, 3),
+            new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide, transparent: true, opacity: 0.9 })
+        );
+        this.banner.position.set(2.5, 8.5, 0);
+        this.group.add(this.banner);
+
+        // Base beacon so the flag is easy to find from a distance
+        this.ring = new THREE.Mesh(
+            new THREE.TorusGeometry(6, 0.3, 8, 32),
+            new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.6, blending: THREE.AdditiveBlending })
+        );
+        this.ring.rotation.x = Math.PI / 2;
+        this.group.add(this.ring);
+
+        this.light = new THREE.PointLight(color, 3, 60);
+        this.light.position.y = 6;
+        this.group.add(this.light);
+
+        scene.add(this.group);
+    }
+
+    setStatus(status: FlagStatus) {
+        this.ring.visible = status === 'home';
+        // Carried flags ride smaller so they don't hide the carrier's ship
+        this.group.scale.setScalar(status === 'carried' ? 0.5 : 1);
+    }
+
+    setPosition(position: THREE.Vector3) {
+        this.group.position.copy(position);
+    }
+
+    update(delta: number) {
+        this.time += delta;
+        this.banner.rotation.y = Math.sin(this.time * 3) * 0.3;
+        this.ring.scale.setScalar(1 + Math.sin(this.time * 2) * 0.1);
+    }
+
+    dispose() {
+        this.scene.remove(this.group);
+        this.group.traverse(object => {
+            if (object instanceof THREE.Mesh) {
+                object.geometry.dispose();
+                (object.material as THREE.Material).dispose();
+            }
+        });
+    }
+}
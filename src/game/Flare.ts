@@ -0,0 +1,88 @@
+/**
+ * Flare Burst - Countermeasure flares dropped to break missile locks
+ */
+
+import * as THREE from 'three';
+
+interface FlareParticle {
+    mesh: THREE.Mesh;
+    velocity: THREE.Vector3;
+    life: number;
+    maxLife: number;
+}
+
+export class FlareBurst {
+    private scene: THREE.Scene;
+    private particles: FlareParticle[] = [];
+    private light: THREE.PointLight;
+
+    constructor(scene: THREE.Scene, position: THREE.Vector3) {
+        this.scene = scene;
+
+        // Bright flash that fades with the flares
+        this.light = new THREE.PointLight(0xffdd88, 8, 60);
+        this.light.position.copy(position);
+        scene.add(this.light);
+
+        // Hot flares scattering outward and drifting down
+        for (let i = 0; i < 8; i++) {
+            const geometry = new THREE.SphereGeometry(0.5, 6, 6);
+            const material = new THREE.MeshBasicMaterial({
+                color: 0xffee99,
+                transparent: true,
+                opacity: 1,
+                blending: THREE.AdditiveBlending,
+            });
+            const mesh = new THREE.Mesh(geometry, material);
+            mesh.position.copy(position);
+
+            const angle = (i / 8) * Math.PI * 2;
+            const velocity = new THREE.Vector3(
+                Math.cos(angle) * 12,
+                -4 - Math.random() * 4,
+                Math.sin(angle) * 12
+            );
+
+            const life = 1.2 + Math.random() * 0.6;
+            this.particles.push({ mesh, velocity, life, maxLife: life });
+            scene.add(mesh);
+        }
+    }
+
+    update(delta: number): boolean {
+        this.light.intensity *= Math.pow(0.1, delta * 2);
+
+        for (let i = this.particles.length - 1; i >= 0; i--) {
+            const particle = this.particles[i];
+            particle.life -= delta;
+
+            if (particle.life <= 0) {
+                this.removeParticle(particle);
+                this.particles.splice(i, 1);
+                continue;
+            }
+
+            particle.mesh.position.addScaledVector(particle.velocity, delta);
+            particle.velocity.multiplyScalar(0.97);
+            (particle.mesh.material as THREE.MeshBasicMaterial).opacity = particle.life / particle.maxLife;
+        }
+
+        if (this.particles.length === 0) {
+            this.dispose();
+            return false;
+        }
+        return true;
+    }
+
+    private removeParticle(particle: FlareParticle) {
+        this.scene.remove(particle.mesh);
+        particle.mesh.geometry.dispose();
+        (particle.mesh.material as THREE.Material).dispose();
+    }
+
+    dispose() {
+        this.particles.forEach(particle => this.removeParticle(particle));
+        this.particles = [];
+        this.scene.remove(this.light);
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Hitbox Debug View
+ * Draws the server's collision shapes (ship boxes and projectile spheres) at the
+ * latest authoritative positions. Toggle in-game with H.
+ */
+
+import * as THREE from 'three';
+import { SerializedGameState } from '../../shared/Protocol';
+import { SHIP_HITBOX, PROJECTILE_RADII } from '../../shared/Collision';
+
+export class HitboxDebugView {
+    private scene: THREE.Scene;
+    private group: THREE.Group;
+    private enabled: boolean = false;
+
+    private shipBoxes: Map<string, THREE.LineSegments> = new Map();
+    private projectileSpheres: Map<string, THREE.LineSegments> = new Map();
+
+    private shipGeometry: THREE.EdgesGeometry;
+    private shipMaterial = new THREE.LineBasicMaterial({ color: 0x00ff00 });
+    private projectileMaterial = new THREE.LineBasicMaterial({ color: 0xffff00 });
+    private projectileGeometries: Map<string, THREE.WireframeGeometry> = new Map();
+
+    constructor(scene: THREE.Scene) {
+        this.scene = scene;
+        this.group = new THREE.Group();
+        this.group.visible = false;
+        scene.add(this.group);
+
+        const { halfExtents, center } = SHIP_HITBOX;
+        const box = new THREE.BoxGeometry(halfExtents.x * 2, halfExtents.y * 2, halfExtents.z * 2);
+        box.translate(center.x, center.y, center.z);
+        this.shipGeometry = new THREE.EdgesGeometry(box);
+        box.dispose();
+
+        for (const [type, radius] of Object.entries(PROJECTILE_RADII)) {
+            const sphere = new THREE.SphereGeometry(radius, 8, 6);
+            this.projectileGeometries.set(type, new THREE.WireframeGeometry(sphere));
+            sphere.dispose();
+        }
+    }
+
+    toggle(): boolean {
+        this.enabled = !this.enabled;
+        this.group.visible = this.enabled;
+        if (!this.enabled) this.clear();
+        return this.enabled;
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    update(state: SerializedGameState) {
+        if (!this.enabled) return;
+
+        // Ships
+        const seenPlayers = new Set<string>();
+        for (const player of Object.values(state.players)) {
+            if (!player.isAlive) continue;
+            seenPlayers.add(player.id);
+
+            let box = this.shipBoxes.get(player.id);
+            if (!box) {
+                box = new THREE.LineSegments(this.shipGeometry, this.shipMaterial);
+                this.shipBoxes.set(player.id, box);
+                this.group.add(box);
+            }
+            box.position.set(player.position.x, player.position.y, player.position.z);
+            box.quaternion.set(player.rotation.x, player.rotation.y, player.rotation.z, player.rotation.w);
+        }
+        this.prune(this.shipBoxes, seenPlayers);
+
+        // Projectiles
+        const seenProjectiles = new Set<string>();
+        for (const proj of state.projectiles) {
+            seenProjectiles.add(proj.id);
+
+            let sphere = this.projectileSpheres.get(proj.id);
+            if (!sphere) {
+                sphere = new THREE.LineSegments(this.projectileGeometries.get(proj.type), this.projectileMaterial);
+                this.projectileSpheres.set(proj.id, sphere);
+                this.group.add(sphere);
+            }
+            sphere.position.set(proj.position.x, proj.position.y, proj.position.z);
+        }
+        this.prune(this.projectileSpheres, seenProjectiles);
+    }
+
+    private prune(objects: Map<string, THREE.LineSegments>, keep: Set<string>) {
+        for (const [id, object] of objects) {
+            if (!keep.has(id)) {
+                this.group.remove(object);
+                objects.delete(id);
+            }
+        }
+    }
+
+    private clear() {
+        this.prune(this.shipBoxes, new Set());
+        this.prune(this.projectileSpheres, new Set());
+    }
+
+    dispose() {
+        this.clear();
+        this.scene.remove(this.group);
+        this.shipGeometry.dispose();
+        this.projectileGeometries.forEach(geometry => geometry.dispose());
+        this.shipMaterial.dispose();
+        this.projectileMaterial.dispose();
+    }
+}
@@ -5,6 +5,7 @@
 
 import * as THREE from 'three';
 import { PlayerInput, Vector3 } from '../../shared/Protocol';
+import { FlightState, FlightWorld, stepFlight } from '../../shared/FlightModel';
 
 export class PlayerShip {
     private scene: THREE.Scene;
@@ -22,7 +23,6 @@ export class PlayerShip {
     private engineLightRight!: THREE.PointLight;
 
     private velocity = new THREE.Vector3();
-    private rotationVelocity = new THREE.Vector3();
 
     // Smooth camera follow
     private cameraTargetPosition = new THREE.Vector3();
@@ -178,6 +178,7 @@ export class PlayerShip {
 
     setPosition(x: number, y: number, z: number) {
         this.shipGroup.position.set(x, y, z);
+        this.shipGroup.quaternion.identity();
         this.velocity.set(0, 0, 0);
 
         // Reset camera
@@ -185,60 +186,27 @@ export class PlayerShip {
         this.camera.position.copy(this.cameraCurrentPosition);
     }
 
-    applyInput(input: PlayerInput, delta: number) {
-        // Movement speed - reduced for more control
-        const baseSpeed = 30;
-        const boostMultiplier = input.boost ? 1.8 : 1;
-        const speed = baseSpeed * boostMultiplier;
-
-        // Rotation speed - increased for better responsiveness (was 1.3)
-        const rotSpeed = 1.6;
-
-        // Get ship's orientation vectors
-        const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.shipGroup.quaternion);
-        const right = new THREE.Vector3(1, 0, 0).applyQuaternion(this.shipGroup.quaternion);
-        const up = new THREE.Vector3(0, 1, 0).applyQuaternion(this.shipGroup.quaternion);
-
-        // Apply thrust
-        const thrust = new THREE.Vector3();
-        thrust.addScaledVector(forward, input.forward * speed);
-        thrust.addScaledVector(right, input.strafe * speed);
-        thrust.addScaledVector(up, input.vertical * speed * 0.6);
-
-        // Heavy drag for stable flight (stops quickly)
-        this.velocity.lerp(thrust, delta * 5);
-
-        // Stronger braking when no input
-        if (Math.abs(input.forward) < 0.1 && Math.abs(input.strafe) < 0.1 && Math.abs(input.vertical) < 0.1) {
-            this.velocity.multiplyScalar(0.92);
-        }
-
-        // Apply velocity
-        this.shipGroup.position.addScaledVector(this.velocity, delta);
-
-        // Apply rotation with higher sensitivity (was 0.6)
-        const pitchAmount = -input.pitch * rotSpeed * delta * 0.9;
-        const yawAmount = -input.yaw * rotSpeed * delta * 0.9;
-        const rollAmount = input.roll * rotSpeed * delta * 1.5;
-
-        // Apply rotations smoothly
-        this.shipGroup.rotateOnAxis(new THREE.Vector3(1, 0, 0), pitchAmount);
-        this.shipGroup.rotateOnWorldAxis(new THREE.Vector3(0, 1, 0), yawAmount);
-        this.shipGroup.rotateOnAxis(new THREE.Vector3(0, 0, 1), rollAmount);
+    // Predict movement locally with the same flight model the server runs
+    applyInput(input: PlayerInput, delta: number, speedMultiplier: number = 1, world?: FlightWorld) {
+        const state = this.getFlightState();
+        stepFlight(state, input, delta, speedMultiplier, world);
+        this.setFlightState(state);
+    }
 
-        // Strong auto-level roll when not actively rolling
-        if (Math.abs(input.roll) < 0.1) {
-            const euler = new THREE.Euler().setFromQuaternion(this.shipGroup.quaternion, 'YXZ');
-            euler.z *= 0.90; // Fast recovery
-            this.shipGroup.quaternion.setFromEuler(euler);
-        }
+    getFlightState(): FlightState {
+        const { position, quaternion } = this.shipGroup;
+        return {
+            position: { x: position.x, y: position.y, z: position.z },
+            rotation: { x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w },
+            velocity: { x: this.velocity.x, y: this.velocity.y, z: this.velocity.z },
+        };
+    }
 
-        // Strong auto-level pitch for stability
-        if (Math.abs(input.pitch) < 0.05) {
-            const euler = new THREE.Euler().setFromQuaternion(this.shipGroup.quaternion, 'YXZ');
-            euler.x *= 0.95; // Moderate recovery
-            this.shipGroup.quaternion.setFromEuler(euler);
-        }
+    // Overwrite the ship's physics state (used when reconciling with the server)
+    setFlightState(state: FlightState) {
+        this.shipGroup.position.set(state.position.x, state.position.y, state.position.z);
+        this.shipGroup.quaternion.set(state.rotation.x, state.rotation.y, state.rotation.z, state.rotation.w);
+        this.velocity.set(state.velocity.x, state.velocity.y, state.velocity.z);
     }
 
     update(delta: number, time: number) {
@@ -312,13 +280,6 @@ export class PlayerShip {
         this.shipGroup.visible = visible;
     }
 
-    // Quick 180-degree flip to see enemies behind
-    flip180() {
-        const flipRotation = new THREE.Quaternion();
-        flipRotation.setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI);
-        this.shipGroup.quaternion.multiply(flipRotation);
-    }
-
     showDamageEffect() {
         // Flash the ship red
         const originalEmissive = (this.bodyMesh.material as THREE.MeshStandardMaterial).emissive.clone();
@@ -5,6 +5,7 @@
 
 import * as THREE from 'three';
 import { ProjectileState, ProjectileType } from '../../shared/Protocol';
+import { SnapshotBuffer } from './SnapshotBuffer';
 
 export class Projectile {
     private scene: THREE.Scene;
@@ -15,6 +16,7 @@ export class Projectile {
 
     private velocity: THREE.Vector3;
     private type: ProjectileType;
+    private snapshots = new SnapshotBuffer();
 
     constructor(scene: THREE.Scene, state: ProjectileState) {
         this.scene = scene;
@@ -109,11 +111,13 @@ export class Projectile {
         return { core, glow, light };
     }
 
-    update(delta: number) {
-        // Move projectile based on velocity (local interpolation)
-        this.group.position.x += this.velocity.x * delta;
-        this.group.position.y += this.velocity.y * delta;
-        this.group.position.z += this.velocity.z * delta;
+    update(delta: number, renderTime: number) {
+        // Server projectiles are interpolated; local-only ones just fly along their velocity
+        if (!this.snapshots.sample(renderTime, this.group.position)) {
+            this.group.position.x += this.velocity.x * delta;
+            this.group.position.y += this.velocity.y * delta;
+            this.group.position.z += this.velocity.z * delta;
+        }
 
         // Pulse effect
         const time = Date.now() * 0.01;
@@ -122,9 +126,22 @@ export class Projectile {
         (this.glowMesh.material as THREE.MeshBasicMaterial).opacity = 0.7 + pulse * 0.2;
     }
 
-    // Update position from server state
-    updatePosition(x: number, y: number, z: number) {
-        this.group.position.set(x, y, z);
+    // Buffer a server state for interpolation
+    pushSnapshot(serverTime: number, state: ProjectileState) {
+        this.snapshots.push(serverTime, state.position, state.velocity);
+
+        // Homing missiles change heading in flight
+        if (state.targetId) {
+            this.velocity.set(state.velocity.x, state.velocity.y, state.velocity.z);
+            if (this.velocity.length() > 0) {
+                const dir = this.velocity.clone().normalize();
+                this.group.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), dir);
+            }
+        }
+    }
+
+    getType(): ProjectileType {
+        return this.type;
     }
 
     getPosition(): THREE.Vector3 {
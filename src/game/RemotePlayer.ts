@@ -5,6 +5,7 @@
 
 import * as THREE from 'three';
 import { PlayerState } from '../../shared/Protocol';
+import { SnapshotBuffer } from './SnapshotBuffer';
 
 export class RemotePlayer {
     private scene: THREE.Scene;
@@ -16,8 +17,7 @@ export class RemotePlayer {
     private healthBarFill: THREE.Mesh;
     private healthBarBg: THREE.Mesh;
 
-    private targetPosition = new THREE.Vector3();
-    private targetRotation = new THREE.Quaternion();
+    private snapshots = new SnapshotBuffer();
 
     public playerState: PlayerState;
 
@@ -209,10 +209,19 @@ export class RemotePlayer {
         return sprite;
     }
 
-    updateFromServer(state: PlayerState) {
+    // Forget buffered states, e.g. after the server teleports the ship
+    resetInterpolation() {
+        this.snapshots.clear();
+    }
+
+    updateFromServer(state: PlayerState, serverTime: number) {
+        // Respawns teleport - don't interpolate across them
+        if (state.isAlive && !this.playerState.isAlive) {
+            this.snapshots.clear();
+        }
+
         this.playerState = state;
-        this.targetPosition.set(state.position.x, state.position.y, state.position.z);
-        this.targetRotation.set(state.rotation.x, state.rotation.y, state.rotation.z, state.rotation.w);
+        this.snapshots.push(serverTime, state.position, state.velocity, state.rotation);
 
         // Update visibility
         this.group.visible = state.isAlive;
@@ -238,10 +247,9 @@ export class RemotePlayer {
         }
     }
 
-    update(delta: number, time: number, camera?: THREE.Camera) {
-        // Smooth interpolation
-        this.group.position.lerp(this.targetPosition, 0.15);
-        this.group.quaternion.slerp(this.targetRotation, 0.15);
+    update(delta: number, time: number, renderTime: number, camera?: THREE.Camera) {
+        // Snapshot interpolation in the past
+        this.snapshots.sample(renderTime, this.group.position, this.group.quaternion);
 
         // Animate engine glow
         this.engineGlow.intensity = 3 + Math.sin(time * 10) * 0.8;
@@ -257,6 +265,10 @@ export class RemotePlayer {
         return this.group.position.clone();
     }
 
+    getQuaternion(): THREE.Quaternion {
+        return this.group.quaternion.clone();
+    }
+
     dispose() {
         this.scene.remove(this.group);
         this.shipGroup.traverse(child => {
@@ -0,0 +1,119 @@
+/**
+ * Snapshot Interpolation
+ * Buffers timestamped server states for one entity and renders it slightly in the past,
+ * interpolating between the two surrounding snapshots. Briefly extrapolates on packet loss.
+ */
+
+import * as THREE from 'three';
+import { Quaternion, Vector3, GAME_CONSTANTS } from '../../shared/Protocol';
+
+// How far behind the newest server time remote entities are rendered (ms)
+export const INTERPOLATION_DELAY = GAME_CONSTANTS.INTERPOLATION_DELAY;
+
+// Longest we keep moving an entity along its last velocity without new data (ms)
+const MAX_EXTRAPOLATION = 250;
+
+// Snapshots kept per entity
+const MAX_SNAPSHOTS = 32;
+
+interface EntitySnapshot {
+    time: number;
+    position: THREE.Vector3;
+    velocity: THREE.Vector3;
+    rotation: THREE.Quaternion | null;
+}
+
+export class SnapshotBuffer {
+    private snapshots: EntitySnapshot[] = [];
+
+    push(serverTime: number, position: Vector3, velocity: Vector3, rotation?: Quaternion) {
+        const last = this.snapshots[this.snapshots.length - 1];
+        if (last && serverTime <= last.time) return; // Out of order or duplicate
+
+        this.snapshots.push({
+            time: serverTime,
+            position: new THREE.Vector3(position.x, position.y, position.z),
+            velocity: new THREE.Vector3(velocity.x, velocity.y, velocity.z),
+            rotation: rotation ? new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w) : null,
+        });
+
+        if (this.snapshots.length > MAX_SNAPSHOTS) {
+            this.snapshots.shift();
+        }
+    }
+
+    /**
+     * Write the entity's state at renderTime (server clock, ms) into the outputs.
+     * Returns false if there is nothing buffered yet.
+     */
+    sample(renderTime: number, outPosition: THREE.Vector3, outRotation?: THREE.Quaternion): boolean {
+        const count = this.snapshots.length;
+        if (count === 0) return false;
+
+        const first = this.snapshots[0];
+        const last = this.snapshots[count - 1];
+
+        // Not enough history yet - hold the oldest state
+        if (renderTime <= first.time) {
+            outPosition.copy(first.position);
+            if (outRotation && first.rotation) outRotation.copy(first.rotation);
+            return true;
+        }
+
+        // Past the newest snapshot - extrapolate along the last known velocity
+        if (renderTime >= last.time) {
+            const ahead = Math.min(renderTime - last.time, MAX_EXTRAPOLATION) / 1000;
+            outPosition.copy(last.position).addScaledVector(last.velocity, ahead);
+            if (outRotation && last.rotation) outRotation.copy(last.rotation);
+            return true;
+        }
+
+        // Find the pair surrounding renderTime
+        let i = count - 2;
+        while (i > 0 && this.snapshots[i].time > renderTime) i--;
+        const from = this.snapshots[i];
+        const to = this.snapshots[i + 1];
+        const alpha = (renderTime - from.time) / (to.time - from.time);
+
+        outPosition.lerpVectors(from.position, to.position, alpha);
+        if (outRotation && from.rotation && to.rotation) {
+            outRotation.slerpQuaternions(from.rotation, to.rotation, alpha);
+        }
+
+        // Drop snapshots that can no longer be sampled
+        if (i > 0) this.snapshots.splice(0, i);
+        return true;
+    }
+
+    clear() {
+        this.snapshots = [];
+    }
+}
+
+/**
+ * Estimates the server clock from snapshot timestamps.
+ */
+export class ServerClock {
+    private offset: number | null = null;
+
+    update(serverTime: number) {
+        const sample = serverTime - Date.now();
+        if (this.offset === null) {
+            this.offset = sample;
+        } else if (sample > this.offset) {
+            // A snapshot that arrived faster than usual is the better estimate
+            this.offset += (sample - this.offset) * 0.5;
+        } else {
+            this.offset += (sample - this.offset) * 0.05;
+        }
+    }
+
+    now(): number {
+        return Date.now() + (this.offset ?? 0);
+    }
+
+    // Time remote entities should currently be drawn at
+    getRenderTime(): number {
+        return this.now() - INTERPOLATION_DELAY;
+    }
+}
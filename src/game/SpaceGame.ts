@@ -8,9 +8,37 @@ import { PlayerShip } from './PlayerShip';
 import { RemotePlayer } from './RemotePlayer';
 import { Projectile } from './Projectile';
 import { Explosion } from './Explosion';
-import { Environment, ArenaType } from './Environment';
+import { FlareBurst } from './Flare';
+import { HitboxDebugView } from './HitboxDebugView';
+import { FlagMarker } from './FlagMarker';
+import { ServerClock } from './SnapshotBuffer';
+import { Environment } from './Environment';
 import { GameClient } from '../network/GameClient';
-import { PlayerState, ProjectileState, SerializedGameState, PlayerInput, GAME_CONSTANTS, ProjectileType } from '../../shared/Protocol';
+import { FlightWorld, stepFlight } from '../../shared/FlightModel';
+import { generateObstacles, sweepSphereVsObstacles } from '../../shared/Obstacles';
+import { isOutsideCombatZone } from '../../shared/ArenaBounds';
+import { PROJECTILE_RADII } from '../../shared/Collision';
+import {
+    PlayerState,
+    ProjectileState,
+    SerializedGameState,
+    PlayerInput,
+    ProjectileType,
+    StatusEffect,
+    StatusEffectType,
+    MatchState,
+    MatchEndData,
+    FlagState,
+    FlagStatus,
+    FlagEventData,
+    BotDifficulty,
+    PracticeSettings,
+    getSideId,
+    GAME_CONSTANTS,
+} from '../../shared/Protocol';
+import { getEffectModifiers, getWeaponCooldown } from '../../shared/StatusEffects';
+import { ArenaMap, getArenaMap } from '../../shared/ArenaMaps';
+import { SpectatorCamera, SpectatorMode, SpectatorTarget } from './SpectatorCamera';
 
 export interface GameCallbacks {
     onScoreUpdate: (score: number, kills: number, deaths: number) => void;
@@ -26,7 +54,55 @@ export interface GameCallbacks {
     onPositionUpdate?: (x: number, z: number, rotation: number) => void;
     onPowerUpsUpdate?: (powerUps: { id: string; type: string; x: number; z: number; isActive: boolean }[]) => void;
     // HUD callbacks
-    onTargetUpdate?: (target: { name: string; health: number; maxHealth: number; shield: number } | null) => void;
+    onTargetUpdate?: (target: { name: string; health: number; maxHealth: number; shield: number; lockProgress: number } | null) => void;
+    onMissileWarning?: (incoming: number, attackerName: string | null) => void;
+    onEffectsUpdate?: (effects: { type: StatusEffectType; remaining: number; duration: number }[]) => void;
+    onRespawnTimer?: (remaining: number) => void;   // ms until a respawn is allowed (0 once ready)
+    onSpawnProtection?: (remaining: number) => void; // ms of spawn protection left (0 when unprotected)
+    onBoundaryWarning?: (damageIn: number | null) => void; // ms until out-of-bounds damage (null inside the combat zone)
+    // Match lifecycle callbacks
+    onMatchUpdate?: (match: MatchState, timeRemaining: number, teamScores: { red: number; blue: number }) => void;
+    onMatchEnded?: (results: MatchEndData, timeUntilNextRound: number) => void;
+    // Capture the flag callbacks
+    onFlagsUpdate?: (flags: { team: 'red' | 'blue'; status: FlagStatus; x: number; z: number; carrierName: string | null; isLocalCarrier: boolean; timeUntilReturn: number }[]) => void;
+    onFlagEvent?: (event: FlagEventData) => void;
+    // King of the hill callback (null outside KOTH)
+    onZoneUpdate?: (zone: {
+        x: number;
+        z: number;
+        radius: number;
+        ownerName: string | null;
+        isOwner: boolean;
+        capturingName: string | null;
+        isCapturing: boolean;
+        progress: number;
+        contested: boolean;
+        points: number;
+        leaderPoints: number;
+        timeUntilMove: number;
+    } | null) => void;
+    // Survival callback (null outside survival)
+    onSurvivalUpdate?: (survival: { wave: number; phase: 'rest' | 'wave'; timeUntilNextWave: number; botsRemaining: number } | null) => void;
+    // Elimination callback (null outside elimination)
+    onEliminationUpdate?: (elimination: {
+        round: number;
+        roundsToWin: number;
+        phase: 'fighting' | 'intermission';
+        waiting: boolean;
+        aliveAllies: number;
+        aliveEnemies: number;
+        wins: number;
+        bestEnemyWins: number;
+        roundWinnerName: string | null;
+        isRoundWinner: boolean;
+        timeRemaining: number;
+    } | null) => void;
+    // Practice sandbox options (sent on joining practice and after each change)
+    onPracticeSettings?: (settings: PracticeSettings) => void;
+    // Spectator camera status (null while flying a ship)
+    onSpectatorUpdate?: (spectator: { mode: SpectatorMode; targetName: string | null; isSpectator: boolean } | null) => void;
+    // The server could not place us in a room (e.g. it is full)
+    onRoomError?: (message: string) => void;
 }
 
 export class SpaceGame {
@@ -36,6 +112,16 @@ export class SpaceGame {
     private currentTargetId: string | null = null;
     private lastTargetUpdate: number = 0;
 
+    // Missile lock-on (held while the missile is selected and the crosshair stays on one target)
+    private lockTargetId: string | null = null;
+    private lockStartTime: number = 0;
+
+    // Our team from the latest snapshot (null in free-for-all); teammates can't be targeted
+    private localTeam: 'red' | 'blue' | null = null;
+
+    // Homing missiles currently tracking us (missile id -> attacker name)
+    private incomingMissiles: Map<string, string> = new Map();
+
     // ...
 
     // In processInput or update loop
@@ -49,10 +135,12 @@ export class SpaceGame {
 
         // Find enemy closest to crosshair
         let bestTarget: RemotePlayer | null = null;
-        let bestDot = 0.86; // ~30 degrees cone for HUD targeting (wider than auto-aim)
+        let bestDot = GAME_CONSTANTS.MISSILE_LOCK_CONE; // ~30 degrees cone for HUD targeting (wider than auto-aim)
+        let bestDist = Infinity;
 
         for (const remote of this.remotePlayers.values()) {
             if (!remote.playerState.isAlive) continue;
+            if (this.localTeam && remote.playerState.team === this.localTeam) continue;
 
             const enemyPos = remote.getPosition();
             const toEnemy = new THREE.Vector3().subVectors(enemyPos, playerPos);
@@ -65,23 +153,46 @@ export class SpaceGame {
 
             if (dot > bestDot) {
                 bestDot = dot;
+                bestDist = dist;
                 bestTarget = remote;
             }
         }
 
+        // Build a missile lock while the same target stays in the cone and in range
+        const now = Date.now();
+        const lockable = bestTarget && this.currentWeapon === 'missile' && bestDist <= GAME_CONSTANTS.MISSILE_LOCK_RANGE;
+        if (!lockable) {
+            this.lockTargetId = null;
+        } else if (this.lockTargetId !== bestTarget!.playerState.id) {
+            this.lockTargetId = bestTarget!.playerState.id;
+            this.lockStartTime = now;
+        }
+
         if (bestTarget) {
             this.currentTargetId = bestTarget.playerState.id;
             this.callbacks.onTargetUpdate?.({
                 name: bestTarget.playerState.name,
                 health: bestTarget.playerState.health,
                 maxHealth: bestTarget.playerState.maxHealth,
-                shield: bestTarget.playerState.shield
+                shield: bestTarget.playerState.shield,
+                lockProgress: this.getLockProgress(),
             });
         } else {
             this.currentTargetId = null;
             this.callbacks.onTargetUpdate?.(null);
         }
     }
+
+    // 0..1, reaching 1 once the missile lock is complete
+    private getLockProgress(): number {
+        if (!this.lockTargetId) return 0;
+        return Math.min(1, (Date.now() - this.lockStartTime) / GAME_CONSTANTS.MISSILE_LOCK_TIME);
+    }
+
+    private updateMissileWarning() {
+        const attackers = [...this.incomingMissiles.values()];
+        this.callbacks.onMissileWarning?.(attackers.length, attackers[attackers.length - 1] ?? null);
+    }
     private container: HTMLElement;
     private renderer: THREE.WebGLRenderer;
     private scene: THREE.Scene;
@@ -90,8 +201,10 @@ export class SpaceGame {
     private remotePlayers: Map<string, RemotePlayer> = new Map();
     private projectiles: Map<string, Projectile> = new Map();
     private environment: Environment;
+    private hitboxDebug: HitboxDebugView;
     private client: GameClient;
     private callbacks: GameCallbacks;
+    private serverClock: ServerClock;
 
     private clock: THREE.Clock;
     private animationId: number = 0;
@@ -104,18 +217,34 @@ export class SpaceGame {
     private mouseLocked: boolean = false;
     private isShooting: boolean = false;
     private lastShootTime: number = 0;
+    private shotCounter: number = 0;
+    private shotBlockedUntil: number = 0; // Set when the server rejects a shot as too early
+    private flipRequested: boolean = false;
+
+    // Client-side prediction: inputs sent but not yet acknowledged by the server
+    private inputSequence: number = 0;
+    private pendingInputs: PlayerInput[] = [];
 
     // Player state
     private playerId: string = '';
     private isAlive: boolean = true;
+    private respawnAt: number = 0; // Server time we may respawn after our last death
 
     // Weapon system
     private currentWeapon: ProjectileType = 'laser';
-    private weaponCooldowns: Record<ProjectileType, number> = {
-        laser: GAME_CONSTANTS.LASER_COOLDOWN,
-        missile: GAME_CONSTANTS.MISSILE_COOLDOWN,
-        plasma: GAME_CONSTANTS.PLASMA_COOLDOWN,
-    };
+
+    // Active power-up effects on the local ship (from the server)
+    private localEffects: StatusEffect[] = [];
+
+    // Practice sandbox options, null outside practice
+    private practiceSettings: PracticeSettings | null = null;
+
+    // Spectating: joined without a ship, or knocked out of an elimination round
+    private spectatorCamera: SpectatorCamera;
+    private isSpectator: boolean = false;
+    private inElimination: boolean = false;
+    private wasSpectating: boolean = false;
+    private spectatorTargetName: string | null = null;
 
     // Screen shake
     private shakeIntensity: number = 0;
@@ -134,16 +263,32 @@ export class SpaceGame {
 
     // Explosions
     private explosions: Explosion[] = [];
+    private flares: FlareBurst[] = [];
 
-    // Ship color and arena
-    private shipColor: string;
-    private arena: ArenaType;
+    // Capture-the-flag flags, by owning team
+    private flagStates: FlagState[] = [];
+    private flagMarkers: Map<'red' | 'blue', FlagMarker> = new Map();
 
-    constructor(container: HTMLElement, callbacks: GameCallbacks, shipColor: string = '#2244aa', arena: ArenaType = 'solar') {
+    // Ship color, and the map the server put us on
+    private shipColor: string;
+    private map: ArenaMap = getArenaMap();
+
+    // Play area and solid obstacles of the map, the same ones the server simulates
+    private world: FlightWorld = { size: this.map.bounds.size, obstacles: generateObstacles(this.map) };
+
+    // Replays pass in a player and its playback clock in place of the live connection
+    constructor(
+        container: HTMLElement,
+        callbacks: GameCallbacks,
+        shipColor: string = '#2244aa',
+        client: GameClient = new GameClient(),
+        serverClock: ServerClock = new ServerClock()
+    ) {
         this.container = container;
         this.callbacks = callbacks;
+        this.client = client;
+        this.serverClock = serverClock;
         this.shipColor = shipColor;
-        this.arena = arena;
         this.clock = new THREE.Clock();
 
         // Initialize renderer
@@ -170,18 +315,21 @@ export class SpaceGame {
         );
         this.camera.position.set(0, 10, 30);
 
-        // Initialize environment with selected arena
-        this.environment = new Environment(this.scene, this.arena);
+        // Default scenery until the server says which map the match is on
+        this.environment = new Environment(this.scene, this.map, this.world.obstacles);
+
+        // Server hitbox visualizer (off until H is pressed)
+        this.hitboxDebug = new HitboxDebugView(this.scene);
 
         // Initialize player ship with selected color
         this.player = new PlayerShip(this.scene, this.camera, this.shipColor);
+        this.spectatorCamera = new SpectatorCamera(this.camera);
 
         // Create muzzle flash light (start invisible)
         this.muzzleFlash = new THREE.PointLight(0x00ffff, 0, 20);
         this.scene.add(this.muzzleFlash);
 
-        // Initialize network client
-        this.client = new GameClient();
+        // Listen to the network client (or replay)
         this.setupNetworkCallbacks();
 
         // Setup input handlers
@@ -236,10 +384,32 @@ export class SpaceGame {
     }
 
     private setupNetworkCallbacks() {
-        this.client.onInit = (playerId, gameState, spawnPosition) => {
+        this.client.onInit = (playerId, gameState, spawnPosition, mapId) => {
+            this.loadMap(mapId);
             this.playerId = playerId;
             this.player.setPosition(spawnPosition.x, spawnPosition.y, spawnPosition.z);
             this.syncGameState(gameState);
+
+            // Joined mid-round in elimination - sit it out until the next round
+            if (gameState.players[playerId]?.isAlive === false) {
+                this.isAlive = false;
+                this.player.setVisible(false);
+                this.callbacks.onDeath();
+            }
+        };
+
+        // Also sent again when a replay seeks, so start from an empty world
+        this.client.onSpectate = (gameState, mapId) => {
+            this.loadMap(mapId);
+            this.isSpectator = true;
+            this.isAlive = false;
+            this.player.setVisible(false);
+            this.clearWorld();
+            this.syncGameState(gameState);
+        };
+
+        this.client.onRoomError = (message) => {
+            this.callbacks.onRoomError?.(message);
         };
 
         this.client.onGameState = (gameState) => {
@@ -286,7 +456,12 @@ export class SpaceGame {
 
             if (data.victimId === this.playerId) {
                 this.isAlive = false;
+                this.respawnAt = data.respawnAt;
+                this.pendingInputs = [];
+                this.incomingMissiles.clear();
+                this.updateMissileWarning();
                 this.callbacks.onDeath();
+                this.callbacks.onRespawnTimer?.(Math.max(0, data.respawnAt - this.serverClock.now()));
                 this.triggerScreenShake(1.5); // Big shake on death
 
                 // Ensure player hidden
@@ -297,25 +472,107 @@ export class SpaceGame {
         this.client.onPlayerRespawned = (player) => {
             if (player.id === this.playerId) {
                 this.isAlive = true;
+                this.pendingInputs = [];
                 this.player.setVisible(true);
                 this.player.setPosition(player.position.x, player.position.y, player.position.z);
                 this.callbacks.onRespawn();
                 this.callbacks.onHealthUpdate(player.health, player.shield);
+            } else {
+                this.remotePlayers.get(player.id)?.resetInterpolation();
+            }
+        };
+
+        this.client.onShotRejected = (data) => {
+            // Drop the predicted projectile and wait until the server says the weapon is ready
+            const key = `local_${data.shotId}`;
+            const proj = this.projectiles.get(key);
+            if (proj) {
+                proj.dispose();
+                this.projectiles.delete(key);
+            }
+            if (this.muzzleFlash) {
+                this.muzzleFlash.intensity = 0;
+                this.muzzleFlashTime = 0;
+            }
+            this.shotBlockedUntil = Date.now() + data.retryIn;
+        };
+
+        this.client.onProjectileDetonated = (data) => {
+            // Explosion sized to the blast radius (a scale-1 explosion spans ~15 units)
+            const position = new THREE.Vector3(data.position.x, data.position.y, data.position.z);
+            this.explosions.push(new Explosion(this.scene, position, 0xff00ff, data.radius / 15));
+
+            const proj = this.projectiles.get(data.projectileId);
+            if (proj) {
+                proj.dispose();
+                this.projectiles.delete(data.projectileId);
+            }
+
+            if (position.distanceTo(this.player.getPosition()) < data.radius * 2) {
+                this.triggerScreenShake(0.3);
             }
         };
 
+        this.client.onMatchEnded = (data) => {
+            this.callbacks.onMatchEnded?.(data, Math.max(0, data.nextRoundAt - this.serverClock.now()));
+        };
+
+        this.client.onMissileLocked = (data) => {
+            this.incomingMissiles.set(data.missileId, data.attackerName);
+            this.updateMissileWarning();
+        };
+
+        this.client.onMissileLost = (missileId) => {
+            if (this.incomingMissiles.delete(missileId)) {
+                this.updateMissileWarning();
+            }
+        };
+
+        this.client.onFlare = (playerId) => {
+            const position = playerId === this.playerId
+                ? this.player.getPosition()
+                : this.remotePlayers.get(playerId)?.getPosition();
+            if (position) {
+                this.flares.push(new FlareBurst(this.scene, position));
+            }
+        };
+
+        this.client.onFlagEvent = (data) => {
+            this.callbacks.onFlagEvent?.(data);
+            if (data.type === 'capture') {
+                this.explosions.push(new Explosion(this.scene, new THREE.Vector3(data.position.x, data.position.y, data.position.z), data.team === 'red' ? 0xff3344 : 0x3388ff));
+            }
+        };
 
         this.client.onChatMessage = (data) => {
             this.callbacks.onChatMessage(data.playerName, data.message);
         };
+
+        this.client.onPracticeSettings = (settings) => {
+            this.practiceSettings = settings;
+            this.callbacks.onPracticeSettings?.(settings);
+        };
     }
 
     private syncGameState(state: SerializedGameState) {
+        this.serverClock.update(state.serverTime);
+        this.hitboxDebug.update(state);
+        this.callbacks.onMatchUpdate?.(
+            state.match,
+            Math.max(0, state.match.phaseEndsAt - this.serverClock.now()),
+            state.teamScores
+        );
+
         // Update remote players
         for (const [id, playerState] of Object.entries(state.players)) {
             if (id === this.playerId) {
+                this.localTeam = playerState.team;
                 this.callbacks.onScoreUpdate(playerState.score, playerState.kills, playerState.deaths);
                 this.callbacks.onHealthUpdate(playerState.health, playerState.shield);
+                this.updateLocalEffects(playerState.effects);
+                this.updateSpawnTimers(playerState);
+                this.reconcileLocalPlayer(playerState);
+                this.updateBoundaryWarning(playerState);
                 continue;
             }
 
@@ -323,7 +580,7 @@ export class SpaceGame {
             if (!remote) {
                 remote = this.addRemotePlayer(playerState);
             }
-            remote?.updateFromServer(playerState);
+            remote?.updateFromServer(playerState, state.serverTime);
         }
 
         // Remove disconnected players
@@ -342,10 +599,8 @@ export class SpaceGame {
                 // Create new projectile
                 proj = new Projectile(this.scene, projState);
                 this.projectiles.set(projState.id, proj);
-            } else {
-                // Update existing projectile position from server
-                proj.updatePosition(projState.position.x, projState.position.y, projState.position.z);
             }
+            proj.pushSnapshot(state.serverTime, projState);
         }
 
         for (const [id, proj] of this.projectiles) {
@@ -355,6 +610,16 @@ export class SpaceGame {
             }
         }
 
+        // Missiles that hit or expired no longer threaten us
+        let missileWarningChanged = false;
+        for (const missileId of this.incomingMissiles.keys()) {
+            if (!currentProjIds.has(missileId)) {
+                this.incomingMissiles.delete(missileId);
+                missileWarningChanged = true;
+            }
+        }
+        if (missileWarningChanged) this.updateMissileWarning();
+
         // Update radar/minimap with player data
         const allPlayers = Object.values(state.players);
         this.callbacks.onPlayersUpdate?.(allPlayers, this.playerId);
@@ -368,6 +633,203 @@ export class SpaceGame {
             isActive: p.isActive,
         }));
         this.callbacks.onPowerUpsUpdate?.(powerUpData);
+
+        this.syncFlags(state);
+        this.syncControlZone(state);
+
+        const survival = state.survival;
+        this.callbacks.onSurvivalUpdate?.(survival ? {
+            wave: survival.wave,
+            phase: survival.phase,
+            timeUntilNextWave: survival.phase === 'rest' ? Math.max(0, survival.nextWaveAt - this.serverClock.now()) : 0,
+            botsRemaining: survival.botsRemaining,
+        } : null);
+
+        this.syncElimination(state);
+
+        this.callbacks.onSpectatorUpdate?.(this.isSpectating() ? {
+            mode: this.spectatorCamera.getMode(),
+            targetName: this.spectatorTargetName,
+            isSpectator: this.isSpectator,
+        } : null);
+    }
+
+    private syncElimination(state: SerializedGameState) {
+        const elimination = state.elimination;
+        this.inElimination = elimination !== null;
+        if (!elimination) {
+            this.callbacks.onEliminationUpdate?.(null);
+            return;
+        }
+
+        // Alive counts and round wins, our side against everyone else
+        const local = state.players[this.playerId];
+        const localSide = local ? getSideId(local) : this.playerId;
+        let aliveAllies = 0;
+        let aliveEnemies = 0;
+        for (const player of Object.values(state.players)) {
+            if (!player.isAlive) continue;
+            if (getSideId(player) === localSide) aliveAllies++;
+            else aliveEnemies++;
+        }
+        const enemyWins = Object.entries(elimination.wins)
+            .filter(([side]) => side !== localSide)
+            .map(([, wins]) => wins);
+
+        const endsAt = elimination.phase === 'fighting' ? elimination.roundEndsAt : elimination.nextRoundAt;
+        this.callbacks.onEliminationUpdate?.({
+            round: elimination.round,
+            roundsToWin: state.match.scoreLimit,
+            phase: elimination.phase,
+            waiting: elimination.waiting,
+            aliveAllies,
+            aliveEnemies,
+            wins: elimination.wins[localSide] ?? 0,
+            bestEnemyWins: Math.max(0, ...enemyWins),
+            roundWinnerName: this.describeSide(elimination.roundWinnerId, state),
+            isRoundWinner: elimination.roundWinnerId === localSide,
+            timeRemaining: Math.max(0, endsAt - this.serverClock.now()),
+        });
+    }
+
+    private syncControlZone(state: SerializedGameState) {
+        const zone = state.zone;
+        if (!zone) {
+            this.environment.updateControlZone(null);
+            this.callbacks.onZoneUpdate?.(null);
+            return;
+        }
+
+        // Zone colors are relative to us: ours, theirs, contested or neutral
+        const local = state.players[this.playerId];
+        const localSide = local ? getSideId(local) : this.playerId;
+        const color = zone.contested ? 0xffaa00
+            : !zone.ownerId ? 0xffffff
+                : zone.ownerId === localSide ? 0x00ffaa : 0xff3344;
+        this.environment.updateControlZone({
+            position: new THREE.Vector3(zone.position.x, zone.position.y, zone.position.z),
+            radius: zone.radius,
+            color,
+        });
+
+        this.callbacks.onZoneUpdate?.({
+            x: zone.position.x,
+            z: zone.position.z,
+            radius: zone.radius,
+            ownerName: this.describeSide(zone.ownerId, state),
+            isOwner: zone.ownerId === localSide,
+            capturingName: this.describeSide(zone.capturingId, state),
+            isCapturing: zone.capturingId === localSide,
+            progress: zone.progress,
+            contested: zone.contested,
+            points: zone.scores[localSide] ?? 0,
+            leaderPoints: Math.max(0, ...Object.values(zone.scores)),
+            timeUntilMove: Math.max(0, zone.movesAt - this.serverClock.now()),
+        });
+    }
+
+    // Display name of a zone side (team or solo player)
+    private describeSide(sideId: string | null, state: SerializedGameState): string | null {
+        if (!sideId) return null;
+        if (sideId === 'red' || sideId === 'blue') return `${sideId.toUpperCase()} TEAM`;
+        return state.players[sideId]?.name ?? 'UNKNOWN';
+    }
+
+    private syncFlags(state: SerializedGameState) {
+        const flags = state.flags;
+        this.flagStates = flags;
+
+        for (const flag of flags) {
+            let marker = this.flagMarkers.get(flag.team);
+            if (!marker) {
+                marker = new FlagMarker(this.scene, flag.team);
+                this.flagMarkers.set(flag.team, marker);
+            }
+            marker.setStatus(flag.status);
+        }
+
+        // Left capture the flag (room mode changed)
+        for (const [team, marker] of this.flagMarkers) {
+            if (!flags.some(flag => flag.team === team)) {
+                marker.dispose();
+                this.flagMarkers.delete(team);
+            }
+        }
+
+        const now = this.serverClock.now();
+        this.callbacks.onFlagsUpdate?.(flags.map(flag => ({
+            team: flag.team,
+            status: flag.status,
+            x: flag.position.x,
+            z: flag.position.z,
+            carrierName: flag.carrierId ? state.players[flag.carrierId]?.name ?? null : null,
+            isLocalCarrier: flag.carrierId === this.playerId,
+            timeUntilReturn: flag.status === 'dropped' ? Math.max(0, flag.returnAt - now) : 0,
+        })));
+    }
+
+    // Carried flags follow the carrier as rendered, not the (older) snapshot position
+    private updateFlags(delta: number) {
+        for (const flag of this.flagStates) {
+            const marker = this.flagMarkers.get(flag.team);
+            if (!marker) continue;
+
+            let position: THREE.Vector3 | undefined;
+            if (flag.status === 'carried' && flag.carrierId) {
+                position = flag.carrierId === this.playerId
+                    ? this.player.getPosition()
+                    : this.remotePlayers.get(flag.carrierId)?.getPosition();
+            }
+            marker.setPosition(position ?? new THREE.Vector3(flag.position.x, flag.position.y, flag.position.z));
+            marker.update(delta);
+        }
+    }
+
+    // Rewind the local ship to the authoritative state and replay unacknowledged inputs
+    private reconcileLocalPlayer(serverState: PlayerState) {
+        this.pendingInputs = this.pendingInputs.filter(input => input.sequence > serverState.lastProcessedInput);
+        if (!this.isAlive || !serverState.isAlive) return;
+
+        const state = {
+            position: { ...serverState.position },
+            rotation: { ...serverState.rotation },
+            velocity: { ...serverState.velocity },
+        };
+        const { speed } = getEffectModifiers(this.localEffects, this.serverClock.now());
+        for (const input of this.pendingInputs) {
+            stepFlight(state, input, input.deltaTime, speed, this.world);
+        }
+        this.player.setFlightState(state);
+    }
+
+    private updateLocalEffects(effects: StatusEffect[]) {
+        this.localEffects = effects;
+
+        const now = this.serverClock.now();
+        this.callbacks.onEffectsUpdate?.(effects
+            .filter(effect => effect.expiresAt > now)
+            .map(effect => ({ type: effect.type, remaining: effect.expiresAt - now, duration: effect.duration })));
+    }
+
+    // The server decides when we may respawn and how long spawn protection lasts
+    private updateSpawnTimers(playerState: PlayerState) {
+        const now = this.serverClock.now();
+        this.callbacks.onRespawnTimer?.(playerState.isAlive ? 0 : Math.max(0, this.respawnAt - now));
+        this.callbacks.onSpawnProtection?.(playerState.isAlive ? Math.max(0, playerState.spawnProtectedUntil - now) : 0);
+    }
+
+    // Warn as soon as our predicted ship leaves the combat zone; the server times the damage
+    private updateBoundaryWarning(playerState: PlayerState) {
+        if (!this.isAlive || !playerState.isAlive || !isOutsideCombatZone(this.player.getPosition(), this.map.bounds.size)) {
+            this.callbacks.onBoundaryWarning?.(null);
+            return;
+        }
+
+        // Counts down the grace time only; 0 once damage has started
+        const since = playerState.outOfBoundsSince;
+        this.callbacks.onBoundaryWarning?.(since > 0
+            ? Math.max(0, since + GAME_CONSTANTS.BOUNDARY_GRACE_TIME - this.serverClock.now())
+            : GAME_CONSTANTS.BOUNDARY_GRACE_TIME);
     }
 
     private addRemotePlayer(playerState: PlayerState): RemotePlayer {
@@ -376,6 +838,29 @@ export class SpaceGame {
         return remote;
     }
 
+    // Rebuild the scenery for the match's map
+    private loadMap(mapId: string) {
+        const map = getArenaMap(mapId);
+        if (map.id === this.map.id) return;
+
+        this.map = map;
+        this.world = { size: map.bounds.size, obstacles: generateObstacles(map) };
+        this.environment.dispose();
+        this.environment = new Environment(this.scene, map, this.world.obstacles);
+    }
+
+    private clearWorld() {
+        for (const remote of this.remotePlayers.values()) {
+            remote.dispose();
+        }
+        this.remotePlayers.clear();
+
+        for (const proj of this.projectiles.values()) {
+            proj.dispose();
+        }
+        this.projectiles.clear();
+    }
+
     private removeRemotePlayer(playerId: string) {
         const remote = this.remotePlayers.get(playerId);
         if (remote) {
@@ -406,15 +891,30 @@ export class SpaceGame {
             if (key === '2') this.switchWeapon('missile');
             if (key === '3') this.switchWeapon('plasma');
 
-            // Rear-view flip (R key) - quickly flip 180 degrees
+            // Rear-view flip (R key) - quickly flip 180 degrees on the next input frame
             if (key === 'r' && this.isAlive) {
-                this.player.flip180();
+                this.flipRequested = true;
+            }
+
+            // Toggle server hitbox debug view (H key)
+            if (key === 'h') {
+                this.hitboxDebug.toggle();
+            }
+
+            // Drop flares (F key) to break missile locks
+            if (key === 'f' && this.isAlive) {
+                this.client.deployFlare();
             }
 
             // Respawn on space when dead
-            if (e.code === 'Space' && !this.isAlive) {
+            if (e.code === 'Space' && !this.isAlive && !this.isSpectator) {
                 this.client.respawn();
             }
+
+            // Switch spectator camera mode (V key)
+            if (key === 'v' && this.isSpectating()) {
+                this.spectatorCamera.cycleMode();
+            }
         });
 
         // Keyboard up
@@ -433,6 +933,16 @@ export class SpaceGame {
 
         // Mouse buttons
         this.container.addEventListener('mousedown', (e) => {
+            // Spectating: left/right click step through the ships to follow
+            if (this.isSpectating()) {
+                if (!this.mouseLocked) {
+                    this.container.requestPointerLock();
+                } else if (e.button === 0 || e.button === 2) {
+                    this.spectatorCamera.cycleTarget(this.getSpectatorTargets(), e.button === 0 ? 1 : -1);
+                }
+                return;
+            }
+
             if (e.button === 0) {
                 if (!this.mouseLocked) {
                     this.container.requestPointerLock();
@@ -511,9 +1021,15 @@ export class SpaceGame {
         this.muzzleFlashTime = 0.05;
     }
 
-    async connect(serverUrl: string, playerName: string, team?: 'red' | 'blue', mode?: string, botBehavior?: string) {
+    // Watch a room without a ship
+    async spectate(serverUrl: string, roomId?: string, mode?: string) {
+        await this.client.connect(serverUrl);
+        this.client.spectate(roomId, mode);
+    }
+
+    async connect(serverUrl: string, playerName: string, roomId?: string, team?: 'red' | 'blue', mode?: string, mapId?: string, botBehavior?: string, botDifficulty?: BotDifficulty, botCount?: number) {
         await this.client.connect(serverUrl);
-        this.client.join(playerName, team, mode, botBehavior);
+        this.client.join(playerName, roomId, team, mode, mapId, botBehavior, botDifficulty, botCount);
     }
 
     start() {
@@ -548,14 +1064,31 @@ export class SpaceGame {
             this.callbacks.onPositionUpdate?.(pos.x, pos.z, rot);
         }
 
-        // Update remote players
+        // Without a ship the spectator camera takes over
+        const spectating = this.isSpectating();
+        if (spectating && !this.wasSpectating) {
+            this.spectatorCamera.reset();
+        }
+        this.wasSpectating = spectating;
+        if (spectating) {
+            this.updateSpectatorCamera(delta);
+        }
+
+        // Update remote players and projectiles from the interpolation buffers
+        const renderTime = this.serverClock.getRenderTime();
         for (const remote of this.remotePlayers.values()) {
-            remote.update(delta, time, this.camera);
+            remote.update(delta, time, renderTime, this.camera);
         }
 
-        // Update projectiles
-        for (const proj of this.projectiles.values()) {
-            proj.update(delta);
+        for (const [id, proj] of this.projectiles) {
+            const from = proj.getPosition();
+            proj.update(delta, renderTime);
+
+            // Predicted shots stop at rocks and wrecks, as the server's do
+            if (id.startsWith('local_') && sweepSphereVsObstacles(from, proj.getPosition(), PROJECTILE_RADII[proj.getType()], this.world.obstacles) !== null) {
+                proj.dispose();
+                this.projectiles.delete(id);
+            }
         }
 
         // Update environment
@@ -578,6 +1111,16 @@ export class SpaceGame {
             }
         }
 
+        // Update flares
+        for (let i = this.flares.length - 1; i >= 0; i--) {
+            if (!this.flares[i].update(delta)) {
+                this.flares.splice(i, 1);
+            }
+        }
+
+        // Update capture-the-flag flags
+        this.updateFlags(delta);
+
         // Update target HUD
         this.updateTargetTracking();
 
@@ -585,6 +1128,41 @@ export class SpaceGame {
         this.renderer.render(this.scene, this.camera);
     };
 
+    private isSpectating(): boolean {
+        return this.isSpectator || (!this.isAlive && this.inElimination);
+    }
+
+    // Ships still flying, in join order
+    private getSpectatorTargets(): SpectatorTarget[] {
+        return [...this.remotePlayers.values()]
+            .filter(remote => remote.playerState.isAlive)
+            .map(remote => ({
+                id: remote.playerState.id,
+                name: remote.playerState.name,
+                position: remote.getPosition(),
+                quaternion: remote.getQuaternion(),
+            }));
+    }
+
+    private updateSpectatorCamera(delta: number) {
+        const axis = (positive: string, negative: string) =>
+            (this.keys.has(positive) ? 1 : 0) - (this.keys.has(negative) ? 1 : 0);
+
+        const target = this.spectatorCamera.update(delta, this.getSpectatorTargets(), {
+            forward: axis('w', 's'),
+            strafe: axis('d', 'a'),
+            vertical: axis(' ', 'shift'),
+            lookX: this.mouseLocked ? this.mouseX : 0,
+            lookY: this.mouseLocked ? this.mouseY : 0,
+            fast: this.keys.has('b'),
+        });
+        this.spectatorTargetName = target?.name ?? null;
+
+        // Mouse deltas are used once per frame
+        this.mouseX = 0;
+        this.mouseY = 0;
+    }
+
     private updateScreenShake(delta: number) {
         if (this.shakeIntensity > 0.01) {
             // Apply random offset to camera
@@ -658,8 +1236,12 @@ export class SpaceGame {
             yaw: 0,
             roll: 0,
             boost: false,
+            flip: this.flipRequested,
+            sequence: ++this.inputSequence,
+            deltaTime: delta,
             timestamp: Date.now(),
         };
+        this.flipRequested = false;
 
         // WASD movement
         if (this.keys.has('w')) input.forward = 1;
@@ -699,17 +1281,20 @@ export class SpaceGame {
         this.mouseX = 0;
         this.mouseY = 0;
 
-        // Apply input
-        this.player.applyInput(input, delta);
+        // Apply input locally (prediction) and keep it until the server acknowledges it
+        const modifiers = getEffectModifiers(this.localEffects, this.serverClock.now());
+        this.player.applyInput(input, delta, modifiers.speed, this.world);
+        this.pendingInputs.push(input);
         this.client.sendInput(input);
 
         // Handle shooting
         if (this.isShooting && this.mouseLocked) {
             const now = Date.now();
-            const cooldown = this.weaponCooldowns[this.currentWeapon];
+            const cooldown = getWeaponCooldown(this.currentWeapon, modifiers, this.practiceSettings?.infiniteAmmo);
 
-            if (now - this.lastShootTime >= cooldown) {
+            if (now - this.lastShootTime >= cooldown && now >= this.shotBlockedUntil) {
                 this.lastShootTime = now;
+                const shotId = ++this.shotCounter;
                 let direction = this.player.getForwardDirection();
                 const playerPos = this.player.getPosition();
 
@@ -757,12 +1342,17 @@ export class SpaceGame {
                 }
 
                 // Send to server
-                this.client.shoot(this.currentWeapon, direction);
+                // Missiles fired with a completed lock home in on the target
+                const lockTargetId = this.currentWeapon === 'missile' && this.getLockProgress() >= 1
+                    ? this.lockTargetId ?? undefined
+                    : undefined;
+                // Remote ships are drawn at the render time, so that's what we aimed at
+                this.client.shoot(this.currentWeapon, direction, shotId, lockTargetId, this.serverClock.getRenderTime());
 
                 // Create instant local projectile for immediate visual feedback
                 const speed = this.currentWeapon === 'missile' ? 80 : this.currentWeapon === 'plasma' ? 120 : 200;
                 const localProjectile = new Projectile(this.scene, {
-                    id: `local_${now}`,
+                    id: `local_${shotId}`,
                     ownerId: this.playerId,
                     type: this.currentWeapon,
                     position: { x: playerPos.x, y: playerPos.y, z: playerPos.z },
@@ -770,14 +1360,14 @@ export class SpaceGame {
                     damage: 0,
                     createdAt: now,
                 });
-                this.projectiles.set(`local_${now}`, localProjectile);
+                this.projectiles.set(`local_${shotId}`, localProjectile);
 
                 // Remove local projectile after a short time (server will provide the real one)
                 setTimeout(() => {
-                    const proj = this.projectiles.get(`local_${now}`);
+                    const proj = this.projectiles.get(`local_${shotId}`);
                     if (proj) {
                         proj.dispose();
-                        this.projectiles.delete(`local_${now}`);
+                        this.projectiles.delete(`local_${shotId}`);
                     }
                 }, 500);
 
@@ -806,11 +1396,16 @@ export class SpaceGame {
         this.client.sendChat(message);
     }
 
+    updatePracticeSettings(changes: Partial<PracticeSettings>) {
+        this.client.updatePracticeSettings(changes);
+    }
+
     dispose() {
         this.stop();
         this.client.disconnect();
         this.player.dispose();
         this.environment.dispose();
+        this.hitboxDebug.dispose();
 
         for (const remote of this.remotePlayers.values()) {
             remote.dispose();
@@ -820,6 +1415,10 @@ export class SpaceGame {
             proj.dispose();
         }
 
+        for (const marker of this.flagMarkers.values()) {
+            marker.dispose();
+        }
+
         for (const line of this.speedLines) {
             line.geometry.dispose();
             (line.material as THREE.Material).dispose();
@@ -0,0 +1,162 @@
+/**
+ * Spectator Camera
+ * Drives the camera for anyone without a ship: spectators and players out of an
+ * elimination round. Follows a chosen ship, flies freely, or circles the arena.
+ */
+
+import * as THREE from 'three';
+import { GAME_CONSTANTS } from '../../shared/Protocol';
+
+export type SpectatorMode = 'follow' | 'free' | 'overview';
+
+const MODE_ORDER: SpectatorMode[] = ['follow', 'free', 'overview'];
+
+// A ship the camera can follow
+export interface SpectatorTarget {
+    id: string;
+    name: string;
+    position: THREE.Vector3;
+    quaternion: THREE.Quaternion;
+}
+
+// Free-fly controls for this frame
+export interface SpectatorInput {
+    forward: number;   // -1..1
+    strafe: number;    // -1..1
+    vertical: number;  // -1..1
+    lookX: number;     // Mouse delta
+    lookY: number;
+    fast: boolean;
+}
+
+const FREE_FLY_SPEED = 80;
+const FREE_FLY_FAST_MULTIPLIER = 3;
+const FOLLOW_DISTANCE = 25;
+const FOLLOW_HEIGHT = 8;
+const OVERVIEW_HEIGHT = GAME_CONSTANTS.WORLD_SIZE * 0.8;
+const OVERVIEW_RADIUS = GAME_CONSTANTS.WORLD_SIZE * 0.9;
+const OVERVIEW_ORBIT_SPEED = 0.05; // Radians per second
+
+export class SpectatorCamera {
+    private camera: THREE.PerspectiveCamera;
+    private mode: SpectatorMode = 'follow';
+    private targetId: string | null = null;
+
+    // Free-fly orientation
+    private yaw = 0;
+    private pitch = 0;
+
+    private orbitAngle = 0;
+    private smoothedPosition = new THREE.Vector3();
+
+    constructor(camera: THREE.PerspectiveCamera) {
+        this.camera = camera;
+    }
+
+    getMode(): SpectatorMode {
+        return this.mode;
+    }
+
+    getTargetId(): string | null {
+        return this.mode === 'follow' ? this.targetId : null;
+    }
+
+    cycleMode(): SpectatorMode {
+        this.setMode(MODE_ORDER[(MODE_ORDER.indexOf(this.mode) + 1) % MODE_ORDER.length]);
+        return this.mode;
+    }
+
+    setMode(mode: SpectatorMode) {
+        if (mode === 'free') {
+            // Fly off from wherever the camera is now
+            const euler = new THREE.Euler().setFromQuaternion(this.camera.quaternion, 'YXZ');
+            this.yaw = euler.y;
+            this.pitch = euler.x;
+        }
+        this.mode = mode;
+    }
+
+    // Step to the next (or previous) ship in the list
+    cycleTarget(targets: SpectatorTarget[], step: number = 1) {
+        if (targets.length === 0) {
+            this.targetId = null;
+            return;
+        }
+        const index = targets.findIndex(target => target.id === this.targetId);
+        const next = index < 0 ? 0 : (index + step + targets.length) % targets.length;
+        this.targetId = targets[next].id;
+        this.mode = 'follow';
+    }
+
+    // Glide on from wherever the camera currently is (e.g. where our ship went down)
+    reset() {
+        this.smoothedPosition.copy(this.camera.position);
+    }
+
+    update(delta: number, targets: SpectatorTarget[], input: SpectatorInput): SpectatorTarget | null {
+        if (this.mode === 'free') {
+            this.updateFree(delta, input);
+            return null;
+        }
+
+        if (this.mode === 'follow') {
+            // Our ship died or left - move on to someone still flying
+            let target = targets.find(t => t.id === this.targetId);
+            if (!target && targets.length > 0) {
+                target = targets[0];
+                this.targetId = target.id;
+            }
+            if (target) {
+                this.updateFollow(delta, target);
+                return target;
+            }
+        }
+
+        this.updateOverview(delta);
+        return null;
+    }
+
+    private updateFollow(delta: number, target: SpectatorTarget) {
+        const back = new THREE.Vector3(0, 0, 1).applyQuaternion(target.quaternion);
+        const up = new THREE.Vector3(0, 1, 0).applyQuaternion(target.quaternion);
+        const desired = target.position.clone()
+            .addScaledVector(back, FOLLOW_DISTANCE)
+            .addScaledVector(up, FOLLOW_HEIGHT);
+
+        this.moveTo(desired, delta * 4);
+        this.camera.lookAt(target.position);
+    }
+
+    private updateFree(delta: number, input: SpectatorInput) {
+        this.yaw -= input.lookX;
+        this.pitch = THREE.MathUtils.clamp(this.pitch - input.lookY, -Math.PI / 2 + 0.01, Math.PI / 2 - 0.01);
+        this.camera.quaternion.setFromEuler(new THREE.Euler(this.pitch, this.yaw, 0, 'YXZ'));
+
+        const speed = FREE_FLY_SPEED * (input.fast ? FREE_FLY_FAST_MULTIPLIER : 1) * delta;
+        const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.camera.quaternion);
+        const right = new THREE.Vector3(1, 0, 0).applyQuaternion(this.camera.quaternion);
+        this.camera.position
+            .addScaledVector(forward, input.forward * speed)
+            .addScaledVector(right, input.strafe * speed)
+            .addScaledVector(new THREE.Vector3(0, 1, 0), input.vertical * speed);
+
+        this.smoothedPosition.copy(this.camera.position);
+    }
+
+    private updateOverview(delta: number) {
+        this.orbitAngle += OVERVIEW_ORBIT_SPEED * delta;
+        const desired = new THREE.Vector3(
+            Math.cos(this.orbitAngle) * OVERVIEW_RADIUS,
+            OVERVIEW_HEIGHT,
+            Math.sin(this.orbitAngle) * OVERVIEW_RADIUS
+        );
+
+        this.moveTo(desired, delta * 1.5);
+        this.camera.lookAt(0, 0, 0);
+    }
+
+    private moveTo(position: THREE.Vector3, alpha: number) {
+        this.smoothedPosition.lerp(position, Math.min(1, alpha));
+        this.camera.position.copy(this.smoothedPosition);
+    }
+}
@@ -17,23 +17,47 @@ import {
     KillData,
     ChatMessage,
     InitData,
+    SpectateData,
     PowerUpCollectedData,
+    ShotRejectedData,
+    MissileLockData,
+    DetonationData,
+    MatchEndData,
+    FlagEventData,
+    RoomInfo,
+    GameMode,
+    BotDifficulty,
+    PracticeSettings,
 } from '../../shared/Protocol';
+import { SnapshotDecoder } from '../../shared/SnapshotCodec';
 
 export class GameClient {
     private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
     private connected: boolean = false;
+    private snapshotDecoder = new SnapshotDecoder();
 
     // Callbacks
-    onInit: ((playerId: string, gameState: SerializedGameState, spawnPosition: Vector3) => void) | null = null;
+    onRoomList: ((rooms: RoomInfo[]) => void) | null = null;
+    onRoomCreated: ((room: RoomInfo) => void) | null = null;
+    onRoomError: ((message: string) => void) | null = null;
+    onInit: ((playerId: string, gameState: SerializedGameState, spawnPosition: Vector3, mapId: string) => void) | null = null;
+    onSpectate: ((gameState: SerializedGameState, mapId: string) => void) | null = null;
     onGameState: ((state: SerializedGameState) => void) | null = null;
     onPlayerJoined: ((player: PlayerState) => void) | null = null;
     onPlayerLeft: ((playerId: string) => void) | null = null;
     onPlayerHit: ((data: HitData) => void) | null = null;
     onPlayerKilled: ((data: KillData) => void) | null = null;
     onPlayerRespawned: ((player: PlayerState) => void) | null = null;
+    onShotRejected: ((data: ShotRejectedData) => void) | null = null;
+    onMissileLocked: ((data: MissileLockData) => void) | null = null;
+    onMissileLost: ((missileId: string) => void) | null = null;
+    onFlare: ((playerId: string) => void) | null = null;
+    onProjectileDetonated: ((data: DetonationData) => void) | null = null;
+    onMatchEnded: ((data: MatchEndData) => void) | null = null;
+    onFlagEvent: ((data: FlagEventData) => void) | null = null;
     onPowerUpCollected: ((data: PowerUpCollectedData) => void) | null = null;
     onChatMessage: ((data: ChatMessage) => void) | null = null;
+    onPracticeSettings: ((settings: PracticeSettings) => void) | null = null;
     onConnectionChange: ((connected: boolean) => void) | null = null;
 
     async connect(serverUrl: string): Promise<void> {
@@ -61,13 +85,36 @@ export class GameClient {
                 reject(error);
             });
 
+            // Lobby events
+            this.socket.on('room:list', (rooms: RoomInfo[]) => {
+                this.onRoomList?.(rooms);
+            });
+
+            this.socket.on('room:created', (room: RoomInfo) => {
+                this.onRoomCreated?.(room);
+            });
+
+            this.socket.on('room:error', (message: string) => {
+                this.onRoomError?.(message);
+            });
+
             // Game events
             this.socket.on('game:init', (data: InitData) => {
-                this.onInit?.(data.playerId, data.gameState, data.spawnPosition);
+                this.snapshotDecoder.reset();
+                this.onInit?.(data.playerId, data.gameState, data.spawnPosition, data.mapId);
             });
 
-            this.socket.on('game:state', (state: SerializedGameState) => {
-                this.onGameState?.(state);
+            this.socket.on('game:spectate', (data: SpectateData) => {
+                this.snapshotDecoder.reset();
+                this.onSpectate?.(data.gameState, data.mapId);
+            });
+
+            this.socket.on('game:snapshot', (data: ArrayBuffer) => {
+                const decoded = this.snapshotDecoder.decode(data);
+                if (!decoded) return; // Baseline missing - wait for the next snapshot
+
+                this.socket?.emit('snapshot:ack', decoded.snapshotId);
+                this.onGameState?.(decoded.state);
             });
 
             this.socket.on('player:joined', (player: PlayerState) => {
@@ -90,6 +137,26 @@ export class GameClient {
                 this.onPlayerRespawned?.(player);
             });
 
+            this.socket.on('player:shoot:rejected', (data: ShotRejectedData) => {
+                this.onShotRejected?.(data);
+            });
+
+            this.socket.on('missile:locked', (data: MissileLockData) => {
+                this.onMissileLocked?.(data);
+            });
+
+            this.socket.on('missile:lost', (missileId: string) => {
+                this.onMissileLost?.(missileId);
+            });
+
+            this.socket.on('player:flare', (playerId: string) => {
+                this.onFlare?.(playerId);
+            });
+
+            this.socket.on('projectile:detonated', (data: DetonationData) => {
+                this.onProjectileDetonated?.(data);
+            });
+
             this.socket.on('powerup:collected', (data: PowerUpCollectedData) => {
                 this.onPowerUpCollected?.(data);
             });
@@ -97,12 +164,45 @@ export class GameClient {
             this.socket.on('chat:message', (data: ChatMessage) => {
                 this.onChatMessage?.(data);
             });
+
+            this.socket.on('match:ended', (data: MatchEndData) => {
+                this.onMatchEnded?.(data);
+            });
+
+            this.socket.on('flag:event', (data: FlagEventData) => {
+                this.onFlagEvent?.(data);
+            });
+
+            this.socket.on('practice:settings', (settings: PracticeSettings) => {
+                this.onPracticeSettings?.(settings);
+            });
+
+            // Answer latency probes right away so the server can measure round-trip time
+            this.socket.on('latency:ping', (callback: () => void) => {
+                callback();
+            });
         });
     }
 
-    join(name: string, team?: 'red' | 'blue', mode?: string, botBehavior?: string) {
+    requestRoomList() {
+        if (!this.socket || !this.connected) return;
+        this.socket.emit('room:list');
+    }
+
+    createRoom(name: string, mode: GameMode, mapId?: string) {
+        if (!this.socket || !this.connected) return;
+        this.socket.emit('room:create', { name, mode, mapId });
+    }
+
+    join(name: string, roomId?: string, team?: 'red' | 'blue', mode?: string, mapId?: string, botBehavior?: string, botDifficulty?: BotDifficulty, botCount?: number) {
         if (!this.socket) return;
-        this.socket.emit('player:join', { name, team, mode, botBehavior });
+        this.socket.emit('player:join', { name, roomId, team, mode, mapId, botBehavior, botDifficulty, botCount });
+    }
+
+    // Watch a room without joining the game
+    spectate(roomId?: string, mode?: string) {
+        if (!this.socket) return;
+        this.socket.emit('player:spectate', { roomId, mode });
     }
 
     sendInput(input: PlayerInput) {
@@ -110,9 +210,14 @@ export class GameClient {
         this.socket.emit('player:input', input);
     }
 
-    shoot(type: ProjectileType, direction: Vector3) {
+    shoot(type: ProjectileType, direction: Vector3, shotId: number, lockTargetId?: string, viewTime?: number) {
+        if (!this.socket || !this.connected) return;
+        this.socket.emit('player:shoot', { type, direction, shotId, lockTargetId, viewTime });
+    }
+
+    deployFlare() {
         if (!this.socket || !this.connected) return;
-        this.socket.emit('player:shoot', { type, direction });
+        this.socket.emit('player:flare');
     }
 
     respawn() {
@@ -125,6 +230,11 @@ export class GameClient {
         this.socket.emit('chat:message', message);
     }
 
+    updatePracticeSettings(changes: Partial<PracticeSettings>) {
+        if (!this.socket || !this.connected) return;
+        this.socket.emit('practice:settings', changes);
+    }
+
     disconnect() {
         if (this.socket) {
             this.socket.disconnect();
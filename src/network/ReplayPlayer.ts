@@ -0,0 +1,163 @@
+/**
+ * Replay Player
+ * Plays a recorded match back through the same callbacks as a live GameClient, so
+ * SpaceGame renders it like a spectated match. Supports pause, seek and playback speed.
+ */
+
+import { GameClient } from './GameClient';
+import { ServerClock } from '../game/SnapshotBuffer';
+import { ReplayData, ReplayEvent, ReplayInfo } from '../../shared/Protocol';
+
+// Playback advances at roughly the display rate
+const PLAYBACK_INTERVAL = 1000 / 60;
+
+// Server clock that follows the playback position instead of the wall clock
+export class ReplayClock extends ServerClock {
+    time = 0;
+
+    // Recorded snapshot times never move the clock - playback does
+    update() { }
+
+    now(): number {
+        return this.time;
+    }
+}
+
+export class ReplayPlayer extends GameClient {
+    readonly clock = new ReplayClock();
+
+    private replay: ReplayData;
+    private nextFrame = 0;
+    private nextEvent = 0;
+    private playing = false;
+    private speed = 1;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private lastStep = 0;
+
+    constructor(replay: ReplayData) {
+        super();
+        this.replay = replay;
+        this.clock.time = replay.info.startedAt;
+    }
+
+    getInfo(): ReplayInfo {
+        return this.replay.info;
+    }
+
+    // ms since the match went live
+    getPosition(): number {
+        return this.clock.time - this.replay.info.startedAt;
+    }
+
+    getDuration(): number {
+        return this.replay.info.duration;
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    getSpeed(): number {
+        return this.speed;
+    }
+
+    // Begin playback from the start
+    start() {
+        if (this.timer) return;
+        this.seek(0);
+        this.play();
+        this.lastStep = Date.now();
+        this.timer = setInterval(() => this.step(), PLAYBACK_INTERVAL);
+    }
+
+    play() {
+        if (this.getPosition() >= this.getDuration()) {
+            this.seek(0);
+        }
+        this.playing = true;
+    }
+
+    pause() {
+        this.playing = false;
+    }
+
+    setSpeed(speed: number) {
+        this.speed = speed;
+    }
+
+    // Jump to a point in the match (ms since it went live). Events in between are skipped.
+    seek(position: number) {
+        const { frames, events, info } = this.replay;
+        const time = info.startedAt + Math.max(0, Math.min(position, info.duration));
+
+        // Rebuild the world from the last frame at or before the new time
+        let index = 0;
+        while (index + 1 < frames.length && frames[index + 1].serverTime <= time) {
+            index++;
+        }
+        this.clock.time = time;
+        this.onSpectate?.(frames[index], info.mapId);
+
+        this.nextFrame = index + 1;
+        const nextEvent = events.findIndex(event => event.time > time);
+        this.nextEvent = nextEvent < 0 ? events.length : nextEvent;
+    }
+
+    disconnect() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.playing = false;
+        super.disconnect();
+    }
+
+    private step() {
+        const now = Date.now();
+        const elapsed = now - this.lastStep;
+        this.lastStep = now;
+        if (!this.playing) return;
+
+        const { frames, events, info } = this.replay;
+        const endTime = info.startedAt + info.duration;
+        this.clock.time = Math.min(endTime, this.clock.time + elapsed * this.speed);
+
+        while (this.nextFrame < frames.length && frames[this.nextFrame].serverTime <= this.clock.time) {
+            this.onGameState?.(frames[this.nextFrame++]);
+        }
+        while (this.nextEvent < events.length && events[this.nextEvent].time <= this.clock.time) {
+            this.emitEvent(events[this.nextEvent++]);
+        }
+
+        if (this.clock.time >= endTime) {
+            this.playing = false;
+            this.onMatchEnded?.(this.replay.results);
+        }
+    }
+
+    private emitEvent(event: ReplayEvent) {
+        switch (event.type) {
+            case 'hit':
+                this.onPlayerHit?.(event.data);
+                break;
+            case 'kill':
+                this.onPlayerKilled?.(event.data);
+                break;
+            case 'detonation':
+                this.onProjectileDetonated?.(event.data);
+                break;
+            case 'pickup':
+                this.onPowerUpCollected?.(event.data);
+                break;
+            case 'flag':
+                this.onFlagEvent?.(event.data);
+                break;
+            case 'respawn':
+                this.onPlayerRespawned?.(event.data);
+                break;
+            case 'chat':
+                this.onChatMessage?.(event.data);
+                break;
+        }
+    }
+}